@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+
+// Envelope encryption for Tanda token material at rest.
+//
+// Every value gets its own random data key (DEK). The value is sealed with the
+// DEK, and the DEK is sealed with a key-encryption key (KEK) derived from a
+// configured secret. Sealed values record the KEK id, so old keys can stay
+// configured for decryption while the primary key is rotated.
+//
+// Format: enc:v1:<kid>:<wrapped DEK>:<sealed value>  (both parts base64url of iv|tag|ciphertext)
+
+const PREFIX = 'enc';
+const VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+export class TokenEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenEncryptionError';
+  }
+}
+
+export interface EncryptionKey {
+  id: string;
+  secret: string;
+}
+
+function deriveKey(secret: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', secret, '', 'tanda-mcp-token-kek', KEY_LENGTH));
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const raw = Buffer.from(sealed, 'base64url');
+  const iv = raw.subarray(0, IV_LENGTH);
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+export class TokenCipher {
+  private keys = new Map<string, Buffer>();
+  private primaryKeyId: string;
+
+  // The first key is the primary (used for new writes); the rest are decrypt-only
+  constructor(keys: EncryptionKey[]) {
+    if (keys.length === 0) {
+      throw new TokenEncryptionError('At least one encryption key is required');
+    }
+    for (const key of keys) {
+      if (!/^[A-Za-z0-9_-]+$/.test(key.id)) {
+        throw new TokenEncryptionError(`Invalid encryption key id: ${key.id}`);
+      }
+      this.keys.set(key.id, deriveKey(key.secret));
+    }
+    this.primaryKeyId = keys[0].id;
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(`${PREFIX}:${VERSION}:`);
+  }
+
+  // Key id a value was sealed with (null for legacy plaintext)
+  keyIdOf(value: string): string | null {
+    return this.isEncrypted(value) ? value.split(':')[2] : null;
+  }
+
+  encrypt(plaintext: string): string {
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+    const wrappedKey = seal(this.keys.get(this.primaryKeyId)!, dataKey);
+    const sealedValue = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+    return [PREFIX, VERSION, this.primaryKeyId, wrappedKey, sealedValue].join(':');
+  }
+
+  // Values written before encryption was enabled are passed through unchanged
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+    return unseal(this.unwrapDataKey(value), value.split(':')[4]).toString('utf8');
+  }
+
+  // Re-wrap a value's data key with the primary key. The sealed value itself is
+  // untouched; legacy plaintext values are encrypted.
+  rewrap(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return this.encrypt(value);
+    }
+    if (this.keyIdOf(value) === this.primaryKeyId) {
+      return value;
+    }
+    const wrappedKey = seal(this.keys.get(this.primaryKeyId)!, this.unwrapDataKey(value));
+    return [PREFIX, VERSION, this.primaryKeyId, wrappedKey, value.split(':')[4]].join(':');
+  }
+
+  needsRewrap(value: string): boolean {
+    return this.keyIdOf(value) !== this.primaryKeyId;
+  }
+
+  private unwrapDataKey(value: string): Buffer {
+    const parts = value.split(':');
+    if (parts.length !== 5) {
+      throw new TokenEncryptionError('Malformed encrypted value');
+    }
+    const keyEncryptionKey = this.keys.get(parts[2]);
+    if (!keyEncryptionKey) {
+      throw new TokenEncryptionError(`Unknown encryption key id: ${parts[2]}`);
+    }
+    try {
+      return unseal(keyEncryptionKey, parts[3]);
+    } catch {
+      throw new TokenEncryptionError(`Failed to unwrap data key with key id: ${parts[2]}`);
+    }
+  }
+}
+
+// Parse "id:secret,id:secret" into keys
+export function parseEncryptionKeys(value?: string): EncryptionKey[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        throw new TokenEncryptionError('Previous encryption keys must be formatted as id:secret');
+      }
+      return { id: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+    });
+}
+
+// Build the cipher from TOKEN_ENCRYPTION_* config
+export function createTokenCipher(): TokenCipher {
+  let primarySecret = config.TOKEN_ENCRYPTION_KEY;
+  if (!primarySecret) {
+    logger.warn('TOKEN_ENCRYPTION_KEY not set - deriving token encryption key from SESSION_SECRET');
+    primarySecret = config.SESSION_SECRET;
+  }
+
+  return new TokenCipher([
+    { id: config.TOKEN_ENCRYPTION_KEY_ID, secret: primarySecret },
+    ...parseEncryptionKeys(config.TOKEN_ENCRYPTION_PREVIOUS_KEYS),
+  ]);
+}
+
+// Singleton instance
+export const tokenCipher = createTokenCipher();
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { oauthManager, JWTPayload } from './oauth';
 import { logger } from '../utils/logger';
 import { TandaClient } from '../tanda/client';
+import { UserRole, hasRole } from './roles';
 
 // Extend Express Request type to include auth info
 declare global {
@@ -11,14 +12,21 @@ declare global {
         payload: JWTPayload;
         sessionId: string;
         tandaClient: TandaClient;
+        scopes?: string[];  // Granted OAuth scopes (undefined = unrestricted)
+        role?: UserRole;
+        departmentIds?: number[];  // Managed departments when department scoping applies
       };
     }
   }
 }
 
+// Bearer token from the Authorization header, or an API key sent as X-API-Key
 export function extractBearerToken(req: Request): string | null {
   const authHeader = req.headers.authorization;
-  if (!authHeader) return null;
+  if (!authHeader) {
+    const apiKey = req.headers['x-api-key'];
+    return typeof apiKey === 'string' && apiKey ? apiKey : null;
+  }
 
   const parts = authHeader.split(' ');
   if (parts.length !== 2 || parts[0].toLowerCase() !== 'bearer') {
@@ -40,7 +48,7 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
     return;
   }
 
-  const payload = oauthManager.verifyJWT(token);
+  const payload = oauthManager.verifyAccessToken(token);
   if (!payload) {
     res.status(401).json({
       error: 'Unauthorized',
@@ -62,6 +70,9 @@ export function requireAuth(req: Request, res: Response, next: NextFunction): vo
     payload,
     sessionId: payload.sessionId,
     tandaClient,
+    scopes: payload.scope?.split(' '),
+    role: oauthManager.getSessionRole(payload.sessionId),
+    departmentIds: oauthManager.getSessionDepartmentScope(payload.sessionId),
   };
 
   next();
@@ -72,7 +83,7 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction): v
   const token = extractBearerToken(req);
 
   if (token) {
-    const payload = oauthManager.verifyJWT(token);
+    const payload = oauthManager.verifyAccessToken(token);
     if (payload) {
       const tandaClient = oauthManager.getTandaClient(payload.sessionId);
       if (tandaClient) {
@@ -80,6 +91,9 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction): v
           payload,
           sessionId: payload.sessionId,
           tandaClient,
+          scopes: payload.scope?.split(' '),
+          role: oauthManager.getSessionRole(payload.sessionId),
+          departmentIds: oauthManager.getSessionDepartmentScope(payload.sessionId),
         };
       }
     }
@@ -88,6 +102,30 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction): v
   next();
 }
 
+// Middleware that requires an interactive (non API key) session with at least the given role.
+// Must run after requireAuth.
+export function requireRole(role: UserRole) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (req.auth?.payload.apiKeyId) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: 'API keys cannot be used for this endpoint',
+      });
+      return;
+    }
+
+    if (!req.auth?.role || !hasRole(req.auth.role, role)) {
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `This endpoint requires the ${role} role`,
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
 // Rate limiting by session
 const requestCounts = new Map<string, { count: number; resetAt: number }>();
 
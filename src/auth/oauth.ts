@@ -1,67 +1,142 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../config/environment';
 import { logger } from '../utils/logger';
-import { TandaClient, exchangeCodeForToken, buildAuthorizationUrl } from '../tanda/client';
+import { TandaClient, exchangeCodeForToken, buildAuthorizationUrl, requestTokenRefresh } from '../tanda/client';
 import { TandaTokenResponse, TandaUser } from '../tanda/types';
+import { SessionStore, SessionData, RefreshTokenData, ClientData, ApiKeyData, createSessionStore } from './store';
+import { TokenCipher, tokenCipher } from './crypto';
+import { formatScope } from './scopes';
+import { UserRole, deriveRole, getDepartmentScope } from './roles';
 
-// In-memory session store (replace with Redis/DB in production)
-interface SessionData {
-  state: string;
-  createdAt: number;
-  userId?: number;
-  accessToken?: string;
-  refreshToken?: string;
-  tokenExpiresAt?: number;
-  user?: TandaUser;
-  // Client OAuth parameters (for Claude MCP flow)
-  clientRedirectUri?: string;
-  clientState?: string;
-  clientCodeChallenge?: string;
-}
+// Auth codes expire after 10 minutes, sessions after 24 hours (unless kept alive by a refresh token)
+const AUTH_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const REFRESH_TOKEN_TTL_MS = config.REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000;
 
-const sessions = new Map<string, SessionData>();
+// API keys look like tmcp_<key id>_<secret>; last-used writes are throttled
+const API_KEY_PREFIX = 'tmcp_';
+const API_KEY_LAST_USED_INTERVAL_MS = 60 * 1000;
 
-// Authorization code store (code -> sessionId mapping for OAuth2 flow)
-interface AuthCodeData {
-  sessionId: string;
-  createdAt: number;
-  used: boolean;
-  codeChallenge?: string;  // For PKCE validation
+// Refresh tokens are opaque random strings; only their hash is stored
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
 }
-const authCodes = new Map<string, AuthCodeData>();
 
-// Auth code cleanup interval (codes expire after 10 minutes)
-const AUTH_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
-setInterval(() => {
-  const now = Date.now();
-  for (const [code, data] of authCodes.entries()) {
-    if (now - data.createdAt > AUTH_CODE_TTL_MS) {
-      authCodes.delete(code);
+// Grant and auth methods a registered client may use
+const SUPPORTED_GRANT_TYPES = ['authorization_code', 'refresh_token'];
+const SUPPORTED_AUTH_METHODS: ClientData['tokenEndpointAuthMethod'][] = ['none', 'client_secret_post'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+// Registration is unauthenticated, so clients that never complete an authorization
+// expire after a day and only a bounded number of them may be waiting at once
+const UNUSED_CLIENT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_UNUSED_CLIENTS = 1000;
+
+// Redirect URIs must be absolute, without a fragment, and use https unless they
+// point at a loopback address (native apps may also use private-use schemes)
+function isValidRedirectUri(uri: unknown): uri is string {
+  if (typeof uri !== 'string') return false;
+  try {
+    const url = new URL(uri);
+    if (url.hash || ['javascript:', 'data:', 'file:', 'vbscript:'].includes(url.protocol)) {
+      return false;
     }
+    return url.protocol !== 'http:' || LOOPBACK_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
   }
-}, 60 * 1000); // Run every minute
+}
 
-// Session cleanup interval (remove expired sessions)
-const SESSION_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
-setInterval(() => {
-  const now = Date.now();
-  for (const [sessionId, session] of sessions.entries()) {
-    if (now - session.createdAt > SESSION_TTL_MS) {
-      sessions.delete(sessionId);
-      logger.debug(`Cleaned up expired session: ${sessionId}`);
-    }
+// Exact string match, except that loopback redirects may use any port (RFC 8252 §7.3)
+function redirectUriMatches(registered: string, requested: string): boolean {
+  if (registered === requested) return true;
+  try {
+    const a = new URL(registered);
+    const b = new URL(requested);
+    if (a.protocol !== 'http:' || !LOOPBACK_HOSTS.includes(a.hostname)) return false;
+    a.port = '';
+    b.port = '';
+    return a.toString() === b.toString();
+  } catch {
+    return false;
   }
-}, 60 * 60 * 1000); // Run every hour
+}
 
 export interface JWTPayload {
   sessionId: string;
   userId?: number;
   email?: string;
+  scope?: string;  // Space-delimited; absent on unrestricted tokens
+  apiKeyId?: string;  // Set when authenticated with an API key rather than a JWT
+  jti?: string;
+  exp?: number;
+  iat?: number;
+}
+
+// RFC 7662 introspection response
+export interface IntrospectionResult {
+  active: boolean;
+  token_type?: string;
+  scope?: string;
+  sub?: string;
+  email?: string;
+  jti?: string;
   exp?: number;
   iat?: number;
 }
 
+// Result of a /token grant
+export interface TokenGrantResult {
+  success: boolean;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn?: number;
+  scope?: string;
+  error?: string;
+}
+
+// Client metadata sent to POST /oauth/register (RFC 7591 §2)
+export interface ClientRegistrationRequest {
+  client_name?: unknown;
+  redirect_uris?: unknown;
+  grant_types?: unknown;
+  response_types?: unknown;
+  token_endpoint_auth_method?: unknown;
+}
+
+// Outcome of a client check; error is an OAuth error code
+export interface ClientResult {
+  success: boolean;
+  clientId?: string;
+  clientSecret?: string;  // Returned once, at registration
+  client?: ClientData;
+  redirectUri?: string;
+  error?: string;
+  errorDescription?: string;
+}
+
+// Outcome of API key creation; apiKey is only ever returned here
+export interface ApiKeyResult {
+  success: boolean;
+  keyId?: string;
+  apiKey?: string;
+  user?: TandaUser;
+  error?: string;
+}
+
+// API key metadata safe to show to admins
+export interface ApiKeyInfo {
+  id: string;
+  name: string;
+  scopes: string[];
+  userId?: number;
+  createdAt: number;
+  createdBy?: number;
+  lastUsedAt?: number;
+}
+
 export interface AuthResult {
   success: boolean;
   token?: string;
@@ -70,13 +145,20 @@ export interface AuthResult {
 }
 
 export class OAuthManager {
+  constructor(
+    private store: SessionStore,
+    private cipher: TokenCipher = tokenCipher
+  ) {}
+
   // Generate a new OAuth state and session
   // The state parameter encodes the sessionId so we can recover it from the callback
   // without relying on cookies (which may not survive cross-site redirects)
   createAuthSession(clientParams?: {
+    clientId?: string;
     redirectUri?: string;
     state?: string;
     codeChallenge?: string;
+    scopes?: string[];
   }): { sessionId: string; authUrl: string; state: string } {
     const sessionId = uuidv4();
     const nonce = uuidv4();
@@ -86,13 +168,15 @@ export class OAuthManager {
     const stateData = { sid: sessionId, n: nonce };
     const state = Buffer.from(JSON.stringify(stateData)).toString('base64url');
 
-    sessions.set(sessionId, {
+    this.store.set('sessions', sessionId, {
       state,  // Store the full encoded state for verification
       createdAt: Date.now(),
       // Store client OAuth parameters for later retrieval
+      clientId: clientParams?.clientId,
       clientRedirectUri: clientParams?.redirectUri,
       clientState: clientParams?.state,
       clientCodeChallenge: clientParams?.codeChallenge,
+      scopes: clientParams?.scopes,
     });
 
     const authUrl = buildAuthorizationUrl(state);
@@ -122,7 +206,7 @@ export class OAuthManager {
     state?: string;
     codeChallenge?: string;
   } | null {
-    const session = sessions.get(sessionId);
+    const session = this.store.get('sessions', sessionId);
     if (!session) return null;
     return {
       redirectUri: session.clientRedirectUri,
@@ -137,7 +221,7 @@ export class OAuthManager {
     code: string,
     returnedState: string
   ): Promise<AuthResult> {
-    const session = sessions.get(sessionId);
+    const session = this.store.get('sessions', sessionId);
 
     if (!session) {
       logger.warn(`Session not found: ${sessionId}`);
@@ -163,14 +247,16 @@ export class OAuthManager {
       const user = await client.getCurrentUser();
 
       // Update session with tokens and user info
-      session.accessToken = tokenResponse.access_token;
-      session.refreshToken = tokenResponse.refresh_token;
+      session.accessToken = this.cipher.encrypt(tokenResponse.access_token);
+      session.refreshToken = this.cipher.encrypt(tokenResponse.refresh_token);
       session.tokenExpiresAt = Date.now() + tokenResponse.expires_in * 1000;
       session.userId = user.id;
       session.user = user;
+      session.role = deriveRole(user);
+      this.store.set('sessions', sessionId, session);
 
       // Generate JWT for the client
-      const jwtToken = this.generateJWT(sessionId, user);
+      const jwtToken = this.generateJWT(sessionId, user, session.scopes);
 
       logger.info(`OAuth callback successful for user: ${user.email}`);
       return {
@@ -207,14 +293,15 @@ export class OAuthManager {
 
       // Create a new session
       const sessionId = uuidv4();
-      sessions.set(sessionId, {
+      this.store.set('sessions', sessionId, {
         state: '',
         createdAt: Date.now(),
-        accessToken: tokenResponse.access_token,
-        refreshToken: tokenResponse.refresh_token,
+        accessToken: this.cipher.encrypt(tokenResponse.access_token),
+        refreshToken: this.cipher.encrypt(tokenResponse.refresh_token),
         tokenExpiresAt: Date.now() + tokenResponse.expires_in * 1000,
         userId: user.id,
         user,
+        role: deriveRole(user),
       });
 
       // Generate JWT
@@ -239,22 +326,28 @@ export class OAuthManager {
   }
 
   // Generate JWT token
-  private generateJWT(sessionId: string, user: TandaUser): string {
+  private generateJWT(sessionId: string, user: TandaUser, scopes?: string[]): string {
     const payload: JWTPayload = {
       sessionId,
       userId: user.id,
       email: user.email,
+      ...(scopes && { scope: formatScope(scopes) }),
     };
 
     return jwt.sign(payload, config.JWT_SECRET, {
       expiresIn: config.JWT_EXPIRY,
+      jwtid: uuidv4(),
     } as jwt.SignOptions);
   }
 
-  // Verify JWT and return session
+  // Verify JWT and return session (revoked tokens are rejected)
   verifyJWT(token: string): JWTPayload | null {
     try {
       const payload = jwt.verify(token, config.JWT_SECRET) as JWTPayload;
+      if (payload.jti && this.store.get('revokedTokens', payload.jti)) {
+        logger.debug(`Rejected revoked JWT: ${payload.jti}`);
+        return null;
+      }
       return payload;
     } catch (error) {
       logger.debug('JWT verification failed:', error);
@@ -262,29 +355,273 @@ export class OAuthManager {
     }
   }
 
+  // Verify a bearer credential: either a JWT or an API key
+  verifyAccessToken(token: string): JWTPayload | null {
+    return token.startsWith(API_KEY_PREFIX) ? this.verifyApiKey(token) : this.verifyJWT(token);
+  }
+
+  // Verify an API key and describe it like a JWT for its service session
+  verifyApiKey(apiKey: string): JWTPayload | null {
+    const separator = apiKey.indexOf('_', API_KEY_PREFIX.length);
+    if (!apiKey.startsWith(API_KEY_PREFIX) || separator < 0) {
+      return null;
+    }
+
+    const keyId = apiKey.slice(API_KEY_PREFIX.length, separator);
+    const keyData = this.store.get('apiKeys', keyId);
+    if (!keyData) {
+      return null;
+    }
+
+    const expected = Buffer.from(keyData.secretHash);
+    const actual = Buffer.from(hashToken(apiKey.slice(separator + 1)));
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      logger.warn(`Invalid secret for API key: ${keyId}`);
+      return null;
+    }
+
+    const now = Date.now();
+    if (!keyData.lastUsedAt || now - keyData.lastUsedAt > API_KEY_LAST_USED_INTERVAL_MS) {
+      keyData.lastUsedAt = now;
+      this.store.set('apiKeys', keyId, keyData);
+    }
+
+    const session = this.store.get('sessions', keyData.sessionId);
+    return {
+      sessionId: keyData.sessionId,
+      userId: session?.userId,
+      email: session?.user?.email,
+      scope: formatScope(keyData.scopes),
+      apiKeyId: keyId,
+    };
+  }
+
+  // Revoke an access token (JWT) or refresh token (RFC 7009). Revoking a refresh
+  // token revokes its whole family. Unknown or already-invalid tokens are ignored.
+  revokeToken(token: string, tokenTypeHint?: string): boolean {
+    if (tokenTypeHint === 'refresh_token') {
+      return this.revokeRefreshToken(token) || this.revokeAccessToken(token);
+    }
+    return this.revokeAccessToken(token) || this.revokeRefreshToken(token);
+  }
+
+  private revokeAccessToken(token: string): boolean {
+    const payload = this.verifyJWT(token);
+    if (!payload?.jti || !payload.exp) {
+      return false;
+    }
+    this.store.set('revokedTokens', payload.jti, {
+      revokedAt: Date.now(),
+      expiresAt: payload.exp * 1000,
+    });
+    logger.info(`Access token revoked: ${payload.jti}`);
+    return true;
+  }
+
+  private revokeRefreshToken(token: string): boolean {
+    const tokenData = this.store.get('refreshTokens', hashToken(token));
+    if (!tokenData) {
+      return false;
+    }
+    this.revokeRefreshTokens((data) => data.familyId === tokenData.familyId);
+    logger.info(`Refresh token family revoked: ${tokenData.familyId}`);
+    return true;
+  }
+
+  // Describe a token for RFC 7662 introspection. Tokens whose session has ended are inactive.
+  introspectToken(token: string, tokenTypeHint?: string): IntrospectionResult {
+    if (tokenTypeHint === 'refresh_token') {
+      return this.introspectRefreshToken(token) || this.introspectAccessToken(token) || { active: false };
+    }
+    return this.introspectAccessToken(token) || this.introspectRefreshToken(token) || { active: false };
+  }
+
+  private introspectAccessToken(token: string): IntrospectionResult | null {
+    const payload = this.verifyJWT(token);
+    if (!payload || !this.store.get('sessions', payload.sessionId)) {
+      return null;
+    }
+    return {
+      active: true,
+      token_type: 'Bearer',
+      scope: payload.scope,
+      sub: payload.userId !== undefined ? String(payload.userId) : undefined,
+      email: payload.email,
+      jti: payload.jti,
+      exp: payload.exp,
+      iat: payload.iat,
+    };
+  }
+
+  private introspectRefreshToken(token: string): IntrospectionResult | null {
+    const tokenData = this.store.get('refreshTokens', hashToken(token));
+    if (!tokenData || tokenData.usedAt || Date.now() > tokenData.expiresAt) {
+      return null;
+    }
+    const session = this.store.get('sessions', tokenData.sessionId);
+    if (!session) {
+      return null;
+    }
+    return {
+      active: true,
+      token_type: 'refresh_token',
+      scope: session.scopes && formatScope(session.scopes),
+      sub: session.userId !== undefined ? String(session.userId) : undefined,
+      email: session.user?.email,
+      exp: Math.floor(tokenData.expiresAt / 1000),
+      iat: Math.floor(tokenData.createdAt / 1000),
+    };
+  }
+
   // Get session by ID
   getSession(sessionId: string): SessionData | undefined {
-    return sessions.get(sessionId);
+    return this.store.get('sessions', sessionId);
+  }
+
+  // Role of the session's user (derived on demand for sessions stored before roles existed)
+  getSessionRole(sessionId: string): UserRole | undefined {
+    const session = this.store.get('sessions', sessionId);
+    if (!session?.user) return undefined;
+    return session.role ?? deriveRole(session.user);
+  }
+
+  // Managed departments the session's user is restricted to (undefined = unscoped)
+  getSessionDepartmentScope(sessionId: string): number[] | undefined {
+    const session = this.store.get('sessions', sessionId);
+    const role = this.getSessionRole(sessionId);
+    if (!session?.user || !role) return undefined;
+    return getDepartmentScope(session.user, role);
   }
 
   // Get Tanda client for session
   getTandaClient(sessionId: string): TandaClient | null {
-    const session = sessions.get(sessionId);
+    const session = this.store.get('sessions', sessionId);
     if (!session?.accessToken) {
       return null;
     }
 
-    return new TandaClient(
-      session.accessToken,
-      session.refreshToken,
-      session.tokenExpiresAt ? Math.floor((session.tokenExpiresAt - Date.now()) / 1000) : undefined
-    );
+    try {
+      return new TandaClient(
+        this.cipher.decrypt(session.accessToken),
+        session.refreshToken ? this.cipher.decrypt(session.refreshToken) : undefined,
+        session.tokenExpiresAt ? Math.floor((session.tokenExpiresAt - Date.now()) / 1000) : undefined,
+        {
+          onTokenRefresh: (tokens, previousRefreshToken) => {
+            this.updateSessionTokens(sessionId, tokens, previousRefreshToken);
+          },
+          organisationId: session.user?.organisation_id,
+        }
+      );
+    } catch (error) {
+      logger.error(`Failed to decrypt tokens for session: ${sessionId}`, error);
+      return null;
+    }
+  }
+
+  // Write refreshed Tanda tokens back to the session. Only applies if the session
+  // still holds the refresh token that was spent, so a late or duplicate callback
+  // can never overwrite newer tokens.
+  updateSessionTokens(sessionId: string, tokens: TandaTokenResponse, previousRefreshToken: string): boolean {
+    const session = this.store.get('sessions', sessionId);
+    if (!session?.refreshToken) {
+      return false;
+    }
+
+    const currentRefreshToken = this.cipher.decrypt(session.refreshToken);
+    if (currentRefreshToken !== previousRefreshToken) {
+      logger.debug(`Skipping stale token update for session: ${sessionId}`);
+      return false;
+    }
+
+    session.accessToken = this.cipher.encrypt(tokens.access_token);
+    session.refreshToken = this.cipher.encrypt(tokens.refresh_token);
+    session.tokenExpiresAt = Date.now() + tokens.expires_in * 1000;
+    this.store.set('sessions', sessionId, session);
+    logger.info(`Stored refreshed Tanda tokens for session: ${sessionId}`);
+    return true;
+  }
+
+  // Issue an API key for a service account. The Tanda refresh token is exchanged
+  // straight away, both to check it and to find out which Tanda user it acts as.
+  async createApiKey(params: {
+    name: string;
+    tandaRefreshToken: string;
+    scopes: string[];
+    createdBy?: number;
+  }): Promise<ApiKeyResult> {
+    try {
+      const tokenResponse = await requestTokenRefresh(params.tandaRefreshToken);
+      const client = new TandaClient(
+        tokenResponse.access_token,
+        tokenResponse.refresh_token,
+        tokenResponse.expires_in
+      );
+      const user = await client.getCurrentUser();
+
+      const keyId = crypto.randomBytes(8).toString('hex');
+      const secret = crypto.randomBytes(32).toString('base64url');
+      const sessionId = uuidv4();
+
+      this.store.set('sessions', sessionId, {
+        state: '',
+        createdAt: Date.now(),
+        accessToken: this.cipher.encrypt(tokenResponse.access_token),
+        refreshToken: this.cipher.encrypt(tokenResponse.refresh_token),
+        tokenExpiresAt: Date.now() + tokenResponse.expires_in * 1000,
+        userId: user.id,
+        user,
+        role: deriveRole(user),
+        scopes: params.scopes,
+        apiKeyId: keyId,
+      });
+      this.store.set('apiKeys', keyId, {
+        name: params.name,
+        secretHash: hashToken(secret),
+        sessionId,
+        scopes: params.scopes,
+        createdAt: Date.now(),
+        createdBy: params.createdBy,
+      });
+
+      logger.info(`API key created: ${keyId} (${params.name}) for user: ${user.email}`);
+      return { success: true, keyId, apiKey: `${API_KEY_PREFIX}${keyId}_${secret}`, user };
+    } catch (error) {
+      logger.error('API key creation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'API key creation failed',
+      };
+    }
+  }
+
+  listApiKeys(): ApiKeyInfo[] {
+    return this.store.entries('apiKeys').map(([id, data]: [string, ApiKeyData]) => ({
+      id,
+      name: data.name,
+      scopes: data.scopes,
+      userId: this.store.get('sessions', data.sessionId)?.userId,
+      createdAt: data.createdAt,
+      createdBy: data.createdBy,
+      lastUsedAt: data.lastUsedAt,
+    }));
+  }
+
+  // Revoke an API key and end its service session
+  revokeApiKey(keyId: string): boolean {
+    const keyData = this.store.get('apiKeys', keyId);
+    if (!keyData) {
+      return false;
+    }
+    this.store.delete('apiKeys', keyId);
+    this.invalidateSession(keyData.sessionId);
+    logger.info(`API key revoked: ${keyId}`);
+    return true;
   }
 
   // Invalidate session (logout)
   invalidateSession(sessionId: string): boolean {
-    const existed = sessions.has(sessionId);
-    sessions.delete(sessionId);
+    const existed = this.store.delete('sessions', sessionId);
+    this.revokeRefreshTokens((data) => data.sessionId === sessionId);
     if (existed) {
       logger.info(`Session invalidated: ${sessionId}`);
     }
@@ -294,21 +631,136 @@ export class OAuthManager {
   // Get session stats (for monitoring)
   getStats(): { activeSessions: number; oldestSession: number | null } {
     let oldestSession: number | null = null;
-    for (const session of sessions.values()) {
+    for (const [, session] of this.store.entries('sessions')) {
       if (oldestSession === null || session.createdAt < oldestSession) {
         oldestSession = session.createdAt;
       }
     }
     return {
-      activeSessions: sessions.size,
+      activeSessions: this.store.size('sessions'),
       oldestSession,
     };
   }
 
+  // Register an OAuth client (RFC 7591). Public clients use token_endpoint_auth_method
+  // "none"; client_secret_post clients get a secret that is only returned here.
+  registerClient(metadata: ClientRegistrationRequest): ClientResult {
+    const { redirect_uris, grant_types, response_types, token_endpoint_auth_method, client_name } = metadata;
+
+    if (!Array.isArray(redirect_uris) || redirect_uris.length === 0) {
+      return { success: false, error: 'invalid_redirect_uri', errorDescription: 'redirect_uris is required' };
+    }
+    const invalidUri = redirect_uris.find((uri) => !isValidRedirectUri(uri));
+    if (invalidUri !== undefined) {
+      return {
+        success: false,
+        error: 'invalid_redirect_uri',
+        errorDescription: `Invalid redirect URI: ${String(invalidUri)}`,
+      };
+    }
+
+    const grantTypes = grant_types ?? SUPPORTED_GRANT_TYPES;
+    if (!Array.isArray(grantTypes) || !grantTypes.every((type) => SUPPORTED_GRANT_TYPES.includes(type))) {
+      return {
+        success: false,
+        error: 'invalid_client_metadata',
+        errorDescription: `Supported grant types: ${SUPPORTED_GRANT_TYPES.join(', ')}`,
+      };
+    }
+    if (!grantTypes.includes('authorization_code')) {
+      return { success: false, error: 'invalid_client_metadata', errorDescription: 'authorization_code grant is required' };
+    }
+
+    if (response_types !== undefined &&
+      (!Array.isArray(response_types) || response_types.some((type) => type !== 'code'))) {
+      return { success: false, error: 'invalid_client_metadata', errorDescription: 'Only the code response type is supported' };
+    }
+
+    const authMethod = (token_endpoint_auth_method ?? 'none') as ClientData['tokenEndpointAuthMethod'];
+    if (!SUPPORTED_AUTH_METHODS.includes(authMethod)) {
+      return {
+        success: false,
+        error: 'invalid_client_metadata',
+        errorDescription: `Supported token endpoint auth methods: ${SUPPORTED_AUTH_METHODS.join(', ')}`,
+      };
+    }
+
+    const unusedClients = this.store.entries('clients').filter(([, data]) => !data.authorizedAt).length;
+    if (unusedClients >= MAX_UNUSED_CLIENTS) {
+      logger.warn(`Client registration refused: ${unusedClients} clients have not completed an authorization`);
+      return {
+        success: false,
+        error: 'temporarily_unavailable',
+        errorDescription: 'Too many pending client registrations, try again later',
+      };
+    }
+
+    const clientId = `mcp-client-${uuidv4()}`;
+    const clientSecret = authMethod === 'client_secret_post' ? crypto.randomBytes(32).toString('base64url') : undefined;
+    const client: ClientData = {
+      clientName: typeof client_name === 'string' && client_name ? client_name : 'MCP Client',
+      redirectUris: redirect_uris as string[],
+      grantTypes: grantTypes as string[],
+      tokenEndpointAuthMethod: authMethod,
+      clientSecretHash: clientSecret ? hashToken(clientSecret) : undefined,
+      createdAt: Date.now(),
+    };
+    this.store.set('clients', clientId, client);
+
+    logger.info(`Registered OAuth client: ${clientId} (${client.clientName})`);
+    return { success: true, clientId, clientSecret, client };
+  }
+
+  getClient(clientId: string): ClientData | undefined {
+    return this.store.get('clients', clientId);
+  }
+
+  // Check the client_id and redirect_uri of an /authorize request. The redirect_uri
+  // may be omitted only when the client registered exactly one.
+  validateAuthorizationRequest(clientId?: string, redirectUri?: string): ClientResult {
+    const client = clientId ? this.store.get('clients', clientId) : undefined;
+    if (!client) {
+      return { success: false, error: 'invalid_client', errorDescription: 'Unknown client_id' };
+    }
+
+    if (!redirectUri) {
+      if (client.redirectUris.length !== 1) {
+        return { success: false, error: 'invalid_request', errorDescription: 'redirect_uri is required' };
+      }
+      return { success: true, clientId, client, redirectUri: client.redirectUris[0] };
+    }
+
+    if (!client.redirectUris.some((registered) => redirectUriMatches(registered, redirectUri))) {
+      return { success: false, error: 'invalid_request', errorDescription: 'redirect_uri does not match a registered redirect URI' };
+    }
+    return { success: true, clientId, client, redirectUri };
+  }
+
+  // Authenticate a client at the token endpoint and check it may use the grant
+  authenticateClient(clientId: string | undefined, clientSecret: string | undefined, grantType: string): ClientResult {
+    const client = clientId ? this.store.get('clients', clientId) : undefined;
+    if (!client) {
+      return { success: false, error: 'invalid_client', errorDescription: 'Unknown client_id' };
+    }
+
+    if (client.tokenEndpointAuthMethod === 'client_secret_post') {
+      const expected = Buffer.from(client.clientSecretHash || '');
+      const actual = Buffer.from(clientSecret ? hashToken(clientSecret) : '');
+      if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return { success: false, error: 'invalid_client', errorDescription: 'Client authentication failed' };
+      }
+    }
+
+    if (!client.grantTypes.includes(grantType)) {
+      return { success: false, error: 'unauthorized_client', errorDescription: `Client may not use the ${grantType} grant` };
+    }
+    return { success: true, clientId, client };
+  }
+
   // Generate an authorization code for OAuth2 flow (for Claude MCP)
   generateAuthCode(sessionId: string, codeChallenge?: string): string {
     const code = uuidv4();
-    authCodes.set(code, {
+    this.store.set('authCodes', code, {
       sessionId,
       createdAt: Date.now(),
       used: false,
@@ -319,8 +771,14 @@ export class OAuthManager {
   }
 
   // Exchange authorization code for JWT (for Claude MCP /token endpoint)
-  exchangeAuthCode(code: string, codeVerifier?: string): { success: boolean; accessToken?: string; error?: string } {
-    const authCodeData = authCodes.get(code);
+  // When the session was started by a registered client, the same client_id (and the
+  // redirect_uri sent to /authorize, if any) must be presented
+  exchangeAuthCode(
+    code: string,
+    codeVerifier?: string,
+    client?: { clientId?: string; redirectUri?: string }
+  ): TokenGrantResult {
+    const authCodeData = this.store.get('authCodes', code);
 
     if (!authCodeData) {
       logger.warn(`Auth code not found: ${code}`);
@@ -330,14 +788,14 @@ export class OAuthManager {
     if (authCodeData.used) {
       logger.warn(`Auth code already used: ${code}`);
       // Delete the code to prevent replay attacks
-      authCodes.delete(code);
+      this.store.delete('authCodes', code);
       return { success: false, error: 'Authorization code already used' };
     }
 
     // Check if code is expired (10 minutes)
     if (Date.now() - authCodeData.createdAt > AUTH_CODE_TTL_MS) {
       logger.warn(`Auth code expired: ${code}`);
-      authCodes.delete(code);
+      this.store.delete('authCodes', code);
       return { success: false, error: 'Authorization code expired' };
     }
 
@@ -349,7 +807,6 @@ export class OAuthManager {
       }
 
       // Validate code_verifier against code_challenge (S256 method)
-      const crypto = require('crypto');
       const expectedChallenge = crypto
         .createHash('sha256')
         .update(codeVerifier)
@@ -364,21 +821,208 @@ export class OAuthManager {
 
     // Mark code as used
     authCodeData.used = true;
+    this.store.set('authCodes', code, authCodeData);
 
     // Get the session
-    const session = sessions.get(authCodeData.sessionId);
+    const session = this.store.get('sessions', authCodeData.sessionId);
     if (!session || !session.user) {
       logger.warn(`Session not found for auth code: ${code}`);
       return { success: false, error: 'Session not found' };
     }
 
-    // Generate JWT for the client
-    const accessToken = this.generateJWT(authCodeData.sessionId, session.user);
+    if (session.clientId && session.clientId !== client?.clientId) {
+      logger.warn(`Auth code presented by wrong client: ${client?.clientId}`);
+      return { success: false, error: 'Authorization code was issued to another client' };
+    }
+    if (session.clientId && client?.redirectUri && client.redirectUri !== session.clientRedirectUri) {
+      logger.warn(`redirect_uri mismatch for auth code: ${code}`);
+      return { success: false, error: 'redirect_uri does not match the authorization request' };
+    }
+
+    // The client has now completed an authorization, so it no longer expires unused
+    const registered = session.clientId ? this.store.get('clients', session.clientId) : undefined;
+    if (registered && !registered.authorizedAt) {
+      registered.authorizedAt = Date.now();
+      this.store.set('clients', session.clientId!, registered);
+    }
+
+    // Generate JWT and a new refresh token family for the client
+    const tokens = this.issueTokens(authCodeData.sessionId, session, uuidv4());
 
     logger.info(`Auth code exchanged for session: ${authCodeData.sessionId}`);
-    return { success: true, accessToken };
+    return { success: true, ...tokens };
+  }
+
+  // Exchange a refresh token for a new JWT (refresh_token grant). Refresh tokens are
+  // single use: each exchange rotates to a new token in the same family, and presenting
+  // an already-rotated token revokes the whole family (RFC 6749 §10.4 / OAuth 2.1 §4.3.1).
+  exchangeRefreshToken(refreshToken: string, clientId?: string): TokenGrantResult {
+    const tokenHash = hashToken(refreshToken);
+    const tokenData = this.store.get('refreshTokens', tokenHash);
+
+    if (!tokenData) {
+      logger.warn('Refresh token not found');
+      return { success: false, error: 'Invalid refresh token' };
+    }
+
+    if (tokenData.usedAt) {
+      logger.warn(`Refresh token reuse detected, revoking family: ${tokenData.familyId}`);
+      this.revokeRefreshTokens((data) => data.familyId === tokenData.familyId);
+      return { success: false, error: 'Refresh token already used' };
+    }
+
+    if (Date.now() > tokenData.expiresAt) {
+      this.store.delete('refreshTokens', tokenHash);
+      return { success: false, error: 'Refresh token expired' };
+    }
+
+    const session = this.store.get('sessions', tokenData.sessionId);
+    if (!session?.user) {
+      logger.warn(`Session not found for refresh token: ${tokenData.sessionId}`);
+      this.store.delete('refreshTokens', tokenHash);
+      return { success: false, error: 'Session not found' };
+    }
+
+    if (session.clientId && session.clientId !== clientId) {
+      logger.warn(`Refresh token presented by wrong client: ${clientId}`);
+      return { success: false, error: 'Refresh token was issued to another client' };
+    }
+
+    // Mark as rotated (kept until expiry so reuse can be detected)
+    tokenData.usedAt = Date.now();
+    this.store.set('refreshTokens', tokenHash, tokenData);
+
+    const tokens = this.issueTokens(tokenData.sessionId, session, tokenData.familyId);
+    logger.info(`Refresh token rotated for session: ${tokenData.sessionId}`);
+    return { success: true, ...tokens };
+  }
+
+  // Issue a JWT plus a refresh token, and keep the session alive as long as the refresh token
+  private issueTokens(
+    sessionId: string,
+    session: SessionData,
+    familyId: string
+  ): { accessToken: string; refreshToken: string; expiresIn: number; scope?: string } {
+    // Callers have already checked the session has a user
+    const accessToken = this.generateJWT(sessionId, session.user!, session.scopes);
+    const { iat, exp } = jwt.decode(accessToken) as JWTPayload;
+
+    const refreshToken = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const expiresAt = now + REFRESH_TOKEN_TTL_MS;
+    this.store.set('refreshTokens', hashToken(refreshToken), {
+      sessionId,
+      familyId,
+      createdAt: now,
+      expiresAt,
+    });
+
+    if ((session.expiresAt ?? 0) < expiresAt) {
+      session.expiresAt = expiresAt;
+      this.store.set('sessions', sessionId, session);
+    }
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: (exp ?? 0) - (iat ?? 0),
+      scope: session.scopes && formatScope(session.scopes),
+    };
+  }
+
+  // Delete every refresh token matching the predicate
+  private revokeRefreshTokens(predicate: (data: RefreshTokenData) => boolean): number {
+    let removed = 0;
+    for (const [tokenHash, data] of this.store.entries('refreshTokens')) {
+      if (predicate(data)) {
+        this.store.delete('refreshTokens', tokenHash);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Re-wrap stored tokens with the primary encryption key (after key rotation).
+  // Plaintext tokens from before encryption was enabled are encrypted as well.
+  reencryptTokens(): number {
+    let updated = 0;
+    for (const [sessionId, session] of this.store.entries('sessions')) {
+      const needsAccess = !!session.accessToken && this.cipher.needsRewrap(session.accessToken);
+      const needsRefresh = !!session.refreshToken && this.cipher.needsRewrap(session.refreshToken);
+      if (!needsAccess && !needsRefresh) continue;
+
+      try {
+        if (session.accessToken) session.accessToken = this.cipher.rewrap(session.accessToken);
+        if (session.refreshToken) session.refreshToken = this.cipher.rewrap(session.refreshToken);
+        this.store.set('sessions', sessionId, session);
+        updated++;
+      } catch (error) {
+        logger.error(`Failed to re-encrypt tokens for session: ${sessionId}`, error);
+      }
+    }
+    if (updated > 0) {
+      logger.info(`Re-encrypted tokens for ${updated} sessions`);
+    }
+    return updated;
+  }
+
+  // Remove auth codes older than AUTH_CODE_TTL_MS
+  purgeExpiredAuthCodes(now: number = Date.now()): number {
+    let removed = 0;
+    for (const [code, data] of this.store.entries('authCodes')) {
+      if (now - data.createdAt > AUTH_CODE_TTL_MS) {
+        this.store.delete('authCodes', code);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Remove registered clients that never completed an authorization within UNUSED_CLIENT_TTL_MS
+  purgeUnusedClients(now: number = Date.now()): number {
+    let removed = 0;
+    for (const [clientId, client] of this.store.entries('clients')) {
+      if (!client.authorizedAt && now - client.createdAt > UNUSED_CLIENT_TTL_MS) {
+        this.store.delete('clients', clientId);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      logger.info(`Removed ${removed} unused OAuth clients`);
+    }
+    return removed;
+  }
+
+  // Remove expired sessions, refresh tokens and revoked JWT entries (API key sessions are kept)
+  purgeExpiredSessions(now: number = Date.now()): number {
+    this.revokeRefreshTokens((data) => now > data.expiresAt);
+    for (const [jti, data] of this.store.entries('revokedTokens')) {
+      if (now > data.expiresAt) {
+        this.store.delete('revokedTokens', jti);
+      }
+    }
+
+    let removed = 0;
+    for (const [sessionId, session] of this.store.entries('sessions')) {
+      // Service sessions live as long as their API key
+      if (session.apiKeyId && this.store.get('apiKeys', session.apiKeyId)) {
+        continue;
+      }
+      if (now > (session.expiresAt ?? session.createdAt + SESSION_TTL_MS)) {
+        this.store.delete('sessions', sessionId);
+        this.revokeRefreshTokens((data) => data.sessionId === sessionId);
+        logger.debug(`Cleaned up expired session: ${sessionId}`);
+        removed++;
+      }
+    }
+    return removed;
   }
 }
 
 // Singleton instance
-export const oauthManager = new OAuthManager();
+export const oauthManager = new OAuthManager(createSessionStore());
+
+// Cleanup intervals (unref'd so they never keep the process alive on their own)
+setInterval(() => oauthManager.purgeExpiredAuthCodes(), 60 * 1000).unref(); // Run every minute
+setInterval(() => oauthManager.purgeExpiredSessions(), 60 * 60 * 1000).unref(); // Run every hour
+setInterval(() => oauthManager.purgeUnusedClients(), 60 * 60 * 1000).unref(); // Run every hour
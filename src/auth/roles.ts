@@ -0,0 +1,45 @@
+import { config } from '../config/environment';
+import { TandaUser } from '../tanda/types';
+
+// Server-side roles, derived from the Tanda user at login. Used to hide and
+// refuse write actions the user's Tanda access level would not allow.
+export type UserRole = 'employee' | 'manager' | 'admin';
+
+const ROLE_RANK: Record<UserRole, number> = {
+  employee: 0,
+  manager: 1,
+  admin: 2,
+};
+
+// Tanda access levels (user_levels) mapped to roles
+const ADMIN_LEVELS = ['owner', 'organisation_admin', 'admin'];
+const MANAGER_LEVELS = ['manager', 'department_manager', 'team_manager', 'roster_manager', 'payroll_officer'];
+
+export function deriveRole(user: Pick<TandaUser, 'user_levels' | 'managed_department_ids'>): UserRole {
+  const levels = (user.user_levels || []).map((level) => level.toLowerCase());
+
+  if (levels.some((level) => ADMIN_LEVELS.includes(level))) {
+    return 'admin';
+  }
+  if (levels.some((level) => MANAGER_LEVELS.includes(level)) || (user.managed_department_ids?.length || 0) > 0) {
+    return 'manager';
+  }
+  return 'employee';
+}
+
+// True if role is at least the required role
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// Departments a user is restricted to when MCP_DEPARTMENT_SCOPING is on.
+// Only managers are scoped; admins bypass it (undefined = unscoped).
+export function getDepartmentScope(
+  user: Pick<TandaUser, 'managed_department_ids'>,
+  role: UserRole
+): number[] | undefined {
+  if (!config.MCP_DEPARTMENT_SCOPING || role !== 'manager') {
+    return undefined;
+  }
+  return user.managed_department_ids || [];
+}
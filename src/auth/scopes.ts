@@ -0,0 +1,54 @@
+// OAuth scopes granted to MCP clients. Each tool group has a read scope; write
+// actions need the group's narrower write scope (see WRITE_ACTIONS in mcp/tools).
+// Tokens issued without a scope claim (browser login, pre-scope tokens) are unrestricted.
+export const SUPPORTED_SCOPES = [
+  'users:read',
+  'users:write',
+  'schedules:read',
+  'schedules:write',
+  'timesheets:read',
+  'timesheets:approve',
+  'leave:read',
+  'leave:write',
+  'leave:approve',
+  'rosters:read',
+  'reference:read',
+  'realtime:read',
+  'unavailability:read',
+  'unavailability:write',
+  'supervisors:read',
+  'supervisors:create',
+];
+
+// Scopes advertised before per-tool scopes existed. Clients still configured with
+// them get the equivalent read scopes rather than an invalid_scope error.
+export const LEGACY_SCOPES: Record<string, string[]> = {
+  user: ['users:read'],
+  department: ['reference:read'],
+  leave: ['leave:read'],
+  roster: ['schedules:read', 'rosters:read'],
+  timesheet: ['timesheets:read'],
+  cost: ['realtime:read', 'reference:read'],
+};
+
+// Parse a space-delimited scope parameter (RFC 6749 §3.3). An empty or missing
+// parameter grants every supported scope; legacy scopes expand to LEGACY_SCOPES.
+export function parseScope(scope: unknown): { valid: boolean; scopes: string[]; invalid?: string[] } {
+  if (scope === undefined || scope === null || scope === '') {
+    return { valid: true, scopes: [...SUPPORTED_SCOPES] };
+  }
+  if (typeof scope !== 'string') {
+    return { valid: false, scopes: [], invalid: [String(scope)] };
+  }
+
+  const requested = Array.from(new Set(scope.split(' ').filter(Boolean).flatMap((s) => LEGACY_SCOPES[s] ?? [s])));
+  const invalid = requested.filter((s) => !SUPPORTED_SCOPES.includes(s));
+  if (invalid.length > 0) {
+    return { valid: false, scopes: [], invalid };
+  }
+  return { valid: true, scopes: requested };
+}
+
+export function formatScope(scopes: string[]): string {
+  return scopes.join(' ');
+}
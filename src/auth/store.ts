@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+import { TandaUser } from '../tanda/types';
+import { UserRole } from './roles';
+
+// OAuth session state (one per login, keyed by sessionId)
+export interface SessionData {
+  state: string;
+  createdAt: number;
+  // Extended while the MCP client holds a live refresh token (defaults to createdAt + 24h)
+  expiresAt?: number;
+  userId?: number;
+  // Tanda tokens, always stored encrypted (see TokenCipher)
+  accessToken?: string;
+  refreshToken?: string;
+  tokenExpiresAt?: number;
+  user?: TandaUser;
+  role?: UserRole;  // Derived from the Tanda user at login
+  // OAuth scopes granted at /authorize (undefined = unrestricted)
+  scopes?: string[];
+  // Set on service sessions backing an API key; these live until the key is revoked
+  apiKeyId?: string;
+  // Client OAuth parameters (for Claude MCP flow)
+  clientId?: string;
+  clientRedirectUri?: string;
+  clientState?: string;
+  clientCodeChallenge?: string;
+}
+
+// Authorization code store (code -> sessionId mapping for OAuth2 flow)
+export interface AuthCodeData {
+  sessionId: string;
+  createdAt: number;
+  used: boolean;
+  codeChallenge?: string;  // For PKCE validation
+}
+
+// Refresh tokens issued to MCP clients (keyed by SHA-256 of the opaque token)
+export interface RefreshTokenData {
+  sessionId: string;
+  familyId: string;  // All tokens rotated from one authorization share a family
+  createdAt: number;
+  expiresAt: number;
+  usedAt?: number;   // Set once rotated; presenting it again is reuse
+}
+
+// OAuth clients registered via dynamic client registration (RFC 7591), keyed by client_id
+export interface ClientData {
+  clientName: string;
+  redirectUris: string[];
+  grantTypes: string[];
+  tokenEndpointAuthMethod: 'none' | 'client_secret_post';
+  clientSecretHash?: string;  // Only for client_secret_post clients
+  createdAt: number;
+  authorizedAt?: number;  // First completed authorization; unset clients expire
+}
+
+// Admin-issued API keys for service accounts (keyed by key id). Each key owns a
+// service session holding the Tanda tokens it acts with.
+export interface ApiKeyData {
+  name: string;
+  secretHash: string;
+  sessionId: string;
+  scopes: string[];
+  createdAt: number;
+  createdBy?: number;  // Tanda user id of the issuing admin
+  lastUsedAt?: number;
+}
+
+// Revoked JWTs (keyed by jti), kept until the token would have expired anyway
+export interface RevokedTokenData {
+  revokedAt: number;
+  expiresAt: number;
+}
+
+// Record types held by the store, keyed by collection name
+export interface StoreCollections {
+  sessions: SessionData;
+  authCodes: AuthCodeData;
+  refreshTokens: RefreshTokenData;
+  revokedTokens: RevokedTokenData;
+  clients: ClientData;
+  apiKeys: ApiKeyData;
+}
+
+export type StoreCollection = keyof StoreCollections;
+
+/**
+ * Pluggable persistence for OAuth state.
+ * Records are plain JSON-serialisable objects; callers must call set() after
+ * mutating a record so that persistent backends see the change.
+ */
+export interface SessionStore {
+  get<C extends StoreCollection>(collection: C, key: string): StoreCollections[C] | undefined;
+  set<C extends StoreCollection>(collection: C, key: string, value: StoreCollections[C]): void;
+  delete(collection: StoreCollection, key: string): boolean;
+  entries<C extends StoreCollection>(collection: C): Array<[string, StoreCollections[C]]>;
+  size(collection: StoreCollection): number;
+}
+
+/**
+ * Process-local store. State is lost on restart.
+ */
+export class MemorySessionStore implements SessionStore {
+  protected collections: { [C in StoreCollection]: Map<string, StoreCollections[C]> } = {
+    sessions: new Map(),
+    authCodes: new Map(),
+    refreshTokens: new Map(),
+    revokedTokens: new Map(),
+    clients: new Map(),
+    apiKeys: new Map(),
+  };
+
+  get<C extends StoreCollection>(collection: C, key: string): StoreCollections[C] | undefined {
+    return this.collections[collection].get(key) as StoreCollections[C] | undefined;
+  }
+
+  set<C extends StoreCollection>(collection: C, key: string, value: StoreCollections[C]): void {
+    (this.collections[collection] as Map<string, StoreCollections[C]>).set(key, value);
+  }
+
+  delete(collection: StoreCollection, key: string): boolean {
+    return this.collections[collection].delete(key);
+  }
+
+  entries<C extends StoreCollection>(collection: C): Array<[string, StoreCollections[C]]> {
+    return Array.from(this.collections[collection].entries()) as Array<[string, StoreCollections[C]]>;
+  }
+
+  size(collection: StoreCollection): number {
+    return this.collections[collection].size;
+  }
+}
+
+/**
+ * JSON file backed store. Keeps everything in memory and rewrites the file
+ * on every change (write to a temp file, then rename) so a crash never
+ * leaves a half-written snapshot behind.
+ */
+export class FileSessionStore extends MemorySessionStore {
+  constructor(private filePath: string) {
+    super();
+    this.load();
+  }
+
+  set<C extends StoreCollection>(collection: C, key: string, value: StoreCollections[C]): void {
+    super.set(collection, key, value);
+    this.persist();
+  }
+
+  delete(collection: StoreCollection, key: string): boolean {
+    const existed = super.delete(collection, key);
+    if (existed) {
+      this.persist();
+    }
+    return existed;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    try {
+      const snapshot = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Partial<{
+        [C in StoreCollection]: Record<string, StoreCollections[C]>;
+      }>;
+      for (const collection of Object.keys(this.collections) as StoreCollection[]) {
+        for (const [key, value] of Object.entries(snapshot[collection] || {})) {
+          super.set(collection, key, value as StoreCollections[typeof collection]);
+        }
+      }
+      logger.info(`Loaded ${this.size('sessions')} sessions from ${this.filePath}`);
+    } catch (error) {
+      logger.error(`Failed to load session store from ${this.filePath}:`, error);
+    }
+  }
+
+  private persist(): void {
+    const snapshot: Record<string, Record<string, unknown>> = {};
+    for (const collection of Object.keys(this.collections) as StoreCollection[]) {
+      snapshot[collection] = Object.fromEntries(this.entries(collection));
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(snapshot), { mode: 0o600 });
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      logger.error(`Failed to persist session store to ${this.filePath}:`, error);
+    }
+  }
+}
+
+// Build the store selected by SESSION_STORE
+export function createSessionStore(): SessionStore {
+  if (config.SESSION_STORE === 'file') {
+    logger.info(`Using file session store: ${config.SESSION_STORE_PATH}`);
+    return new FileSessionStore(config.SESSION_STORE_PATH);
+  }
+  return new MemorySessionStore();
+}
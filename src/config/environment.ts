@@ -67,6 +67,18 @@ function getCorsOrigins(): string {
   return origins;
 }
 
+/**
+ * Check that a time zone is a valid IANA name (e.g. Australia/Sydney)
+ */
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 // Pre-compute the redirect URI for validation
 const computedRedirectUri = getRedirectUri();
 
@@ -93,12 +105,43 @@ const environmentSchema = z.object({
   SESSION_SECRET: z.string().min(32, 'SESSION_SECRET must be at least 32 characters'),
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
   JWT_EXPIRY: z.string().default('24h'),
+  REFRESH_TOKEN_TTL_DAYS: z.string().default('30').transform(Number),
+
+  // Session persistence: 'memory' (lost on restart) or 'file' (JSON snapshot on disk)
+  SESSION_STORE: z.enum(['memory', 'file']).default('memory'),
+  SESSION_STORE_PATH: z.string().default('./data/sessions.json'),
+
+  // Token encryption at rest: primary key plus optional decrypt-only keys ("id:secret,id:secret")
+  TOKEN_ENCRYPTION_KEY: z.string().min(32, 'TOKEN_ENCRYPTION_KEY must be at least 32 characters').optional(),
+  TOKEN_ENCRYPTION_KEY_ID: z.string().regex(/^[A-Za-z0-9_-]+$/, 'TOKEN_ENCRYPTION_KEY_ID may only contain letters, digits, _ and -').default('primary'),
+  TOKEN_ENCRYPTION_PREVIOUS_KEYS: z.string().optional(),
 
   // Security Configuration
   CORS_ORIGINS: z.string().default('*'),
   RATE_LIMIT_WINDOW_MS: z.string().default('900000').transform(Number),
   RATE_LIMIT_MAX_REQUESTS: z.string().default('100').transform(Number),
 
+  // Tanda API retries for idempotent requests (jittered exponential backoff, honours Retry-After)
+  TANDA_MAX_RETRIES: z.string().default('3').transform(Number),
+  TANDA_RETRY_BASE_DELAY_MS: z.string().default('500').transform(Number),
+  TANDA_RETRY_MAX_DELAY_MS: z.string().default('30000').transform(Number),
+
+  // Tanda API quota per access token: token bucket (requests per minute + burst) and max requests in flight
+  TANDA_REQUESTS_PER_MINUTE: z.string().default('200').transform(Number),
+  TANDA_REQUEST_BURST: z.string().default('20').transform(Number),
+  TANDA_MAX_CONCURRENT_REQUESTS: z.string().default('4').transform(Number),
+
+  // How long a Tanda endpoint that returned 404 is skipped in favour of its fallback
+  TANDA_ENDPOINT_COOLDOWN_MS: z.string().default('600000').transform(Number),
+
+  // Time zone for locations without one in Tanda (IANA name); used to bucket shifts into local days
+  TANDA_DEFAULT_TIME_ZONE: z.string().default('UTC').refine(isTimeZone, 'TANDA_DEFAULT_TIME_ZONE must be an IANA time zone'),
+
+  // Tanda reference data cache TTLs in seconds (0 disables caching for that resource)
+  CACHE_TTL_DEPARTMENTS: z.string().default('300').transform(Number),
+  CACHE_TTL_LOCATIONS: z.string().default('900').transform(Number),
+  CACHE_TTL_USERS: z.string().default('60').transform(Number),
+
   // MCP Configuration
   MCP_SERVER_NAME: z.string().default('tanda-workforce-mcp'),
   MCP_SERVER_VERSION: z.string().default('4.0.0'),
@@ -108,6 +151,27 @@ const environmentSchema = z.object({
 
   // v4.0: Lite mode - only exposes 6 essential read-only tools for simple use cases
   MCP_LITE_MODE: z.string().optional().transform((val) => val === 'true'),
+
+  // Department scoping - when enabled, managers only see and change data for their managed departments
+  MCP_DEPARTMENT_SCOPING: z.string().optional().transform((val) => val === 'true'),
+
+  // Date range chunking - when enabled, ranges over 14 days are fetched as 14-day windows,
+  // up to an absolute maximum of MCP_MAX_RANGE_DAYS
+  MCP_AUTO_CHUNK: z.string().optional().transform((val) => val === 'true'),
+  MCP_MAX_RANGE_DAYS: z.string().default('92').transform(Number),
+
+  // How long list results are kept for next_cursor pages
+  MCP_CURSOR_TTL_SECONDS: z.string().default('300').transform(Number),
+
+  // How long an idle Streamable HTTP session (Mcp-Session-Id) is kept
+  MCP_SESSION_TTL_SECONDS: z.string().default('1800').transform(Number),
+
+  // Transport: 'http' (Express server) or 'stdio' (newline-delimited JSON-RPC over stdin/stdout)
+  MCP_TRANSPORT: z.enum(['http', 'stdio']).default('http'),
+
+  // Stdio credentials: an API key issued by /admin/api-keys, or a stored Tanda access token
+  MCP_STDIO_API_KEY: z.string().optional(),
+  TANDA_ACCESS_TOKEN: z.string().optional(),
 });
 
 function loadEnvironment() {
@@ -158,13 +222,40 @@ function loadEnvironment() {
       SESSION_SECRET: process.env.SESSION_SECRET || 'development-secret-change-in-production-32chars',
       JWT_SECRET: process.env.JWT_SECRET || 'development-jwt-secret-change-in-production-32',
       JWT_EXPIRY: '24h',
+      REFRESH_TOKEN_TTL_DAYS: 30,
+      SESSION_STORE: (process.env.SESSION_STORE === 'file' ? 'file' : 'memory') as 'memory' | 'file',
+      SESSION_STORE_PATH: process.env.SESSION_STORE_PATH || './data/sessions.json',
+      TOKEN_ENCRYPTION_KEY: process.env.TOKEN_ENCRYPTION_KEY,
+      TOKEN_ENCRYPTION_KEY_ID: process.env.TOKEN_ENCRYPTION_KEY_ID || 'primary',
+      TOKEN_ENCRYPTION_PREVIOUS_KEYS: process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS,
       CORS_ORIGINS: getCorsOrigins(),
       RATE_LIMIT_WINDOW_MS: 900000,
       RATE_LIMIT_MAX_REQUESTS: 100,
+      TANDA_MAX_RETRIES: Number(process.env.TANDA_MAX_RETRIES || 3),
+      TANDA_RETRY_BASE_DELAY_MS: Number(process.env.TANDA_RETRY_BASE_DELAY_MS || 500),
+      TANDA_RETRY_MAX_DELAY_MS: Number(process.env.TANDA_RETRY_MAX_DELAY_MS || 30000),
+      TANDA_REQUESTS_PER_MINUTE: Number(process.env.TANDA_REQUESTS_PER_MINUTE || 200),
+      TANDA_REQUEST_BURST: Number(process.env.TANDA_REQUEST_BURST || 20),
+      TANDA_MAX_CONCURRENT_REQUESTS: Number(process.env.TANDA_MAX_CONCURRENT_REQUESTS || 4),
+      TANDA_ENDPOINT_COOLDOWN_MS: Number(process.env.TANDA_ENDPOINT_COOLDOWN_MS || 600000),
+      TANDA_DEFAULT_TIME_ZONE: process.env.TANDA_DEFAULT_TIME_ZONE && isTimeZone(process.env.TANDA_DEFAULT_TIME_ZONE)
+        ? process.env.TANDA_DEFAULT_TIME_ZONE
+        : 'UTC',
+      CACHE_TTL_DEPARTMENTS: Number(process.env.CACHE_TTL_DEPARTMENTS || 300),
+      CACHE_TTL_LOCATIONS: Number(process.env.CACHE_TTL_LOCATIONS || 900),
+      CACHE_TTL_USERS: Number(process.env.CACHE_TTL_USERS || 60),
       MCP_SERVER_NAME: 'tanda-workforce-mcp',
       MCP_SERVER_VERSION: '4.0.0',
       MCP_READ_ONLY_MODE: process.env.MCP_READ_ONLY_MODE === 'true',
       MCP_LITE_MODE: process.env.MCP_LITE_MODE === 'true',
+      MCP_DEPARTMENT_SCOPING: process.env.MCP_DEPARTMENT_SCOPING === 'true',
+      MCP_AUTO_CHUNK: process.env.MCP_AUTO_CHUNK === 'true',
+      MCP_MAX_RANGE_DAYS: Number(process.env.MCP_MAX_RANGE_DAYS || 92),
+      MCP_CURSOR_TTL_SECONDS: Number(process.env.MCP_CURSOR_TTL_SECONDS || 300),
+      MCP_SESSION_TTL_SECONDS: Number(process.env.MCP_SESSION_TTL_SECONDS || 1800),
+      MCP_TRANSPORT: (process.env.MCP_TRANSPORT === 'stdio' ? 'stdio' : 'http') as 'http' | 'stdio',
+      MCP_STDIO_API_KEY: process.env.MCP_STDIO_API_KEY,
+      TANDA_ACCESS_TOKEN: process.env.TANDA_ACCESS_TOKEN,
     };
   }
 
@@ -0,0 +1,256 @@
+import {
+  TandaActiveShift,
+  TandaAwardInterpretation,
+  TandaBreak,
+  TandaDailyStats,
+  TandaDepartment,
+  TandaLeaveBalance,
+  TandaLeaveRequest,
+  TandaLocation,
+  TandaRoster,
+  TandaRosterCost,
+  TandaSchedule,
+  TandaShift,
+  TandaTeam,
+  TandaTime,
+  TandaTimesheet,
+  TandaUnavailability,
+  TandaUser,
+} from '../tanda/types';
+
+// Response shaping, so large results don't flood the model's context:
+// - full: records as Tanda returns them (default)
+// - summary: the few fields that identify each record (who/where/when/hours)
+// - compact: full records without null, empty and missing values
+// `fields` picks top-level fields of each record instead of the format's shape.
+
+export const RESPONSE_FORMATS = ['full', 'summary', 'compact'] as const;
+export type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+export interface ShapeOptions {
+  format: ResponseFormat;
+  fields?: string[];
+}
+
+// Reported alongside every successful tool result
+export interface ResponseMeta {
+  format: ResponseFormat;
+  fields?: string[];
+  estimated_tokens: number;       // Size of the shaped content
+  full_estimated_tokens: number;  // Size the content would have been with format=full
+}
+
+// Record type behind each entity type
+interface EntityRecords {
+  user: TandaUser;
+  schedule: TandaSchedule;
+  shift: TandaShift;
+  active_shift: TandaActiveShift;
+  timesheet: TandaTimesheet;
+  leave_request: TandaLeaveRequest;
+  leave_balance: TandaLeaveBalance;
+  unavailability: TandaUnavailability;
+  roster: TandaRoster;
+  department: TandaDepartment;
+  location: TandaLocation;
+  team: TandaTeam;
+  daily_stats: TandaDailyStats;
+  award_interpretation: TandaAwardInterpretation;
+  roster_cost: TandaRosterCost;
+}
+
+export type EntityType = keyof EntityRecords;
+
+// Worked hours between start and finish, less unpaid breaks (lengths are in minutes)
+function workedHours(start?: TandaTime, finish?: TandaTime, breaks?: TandaBreak[]): number | undefined {
+  if (!start || !finish) return undefined;
+  const minutes = (finish.epoch - start.epoch) / 60 -
+    (breaks || []).filter(b => !b.paid).reduce((total, b) => total + (b.length || 0), 0);
+  return Math.round(minutes / 60 * 100) / 100;
+}
+
+const SUMMARIZERS: { [T in EntityType]: (record: EntityRecords[T]) => Record<string, unknown> } = {
+  user: (u: TandaUser) => ({ id: u.id, name: u.name, email: u.email, active: u.active, department_ids: u.department_ids }),
+  schedule: (s: TandaSchedule) => ({
+    id: s.id,
+    user_id: s.user_id,
+    department_id: s.department_id,
+    start: s.start?.iso,
+    finish: s.finish?.iso,
+    hours: workedHours(s.start, s.finish, s.breaks),
+  }),
+  shift: (s: TandaShift) => ({
+    id: s.id,
+    user_id: s.user_id,
+    department_id: s.department_id,
+    date: s.date,
+    start: s.start?.iso,
+    finish: s.finish?.iso,
+    hours: workedHours(s.start, s.finish, s.breaks),
+    status: s.status,
+  }),
+  active_shift: (s: TandaActiveShift) => ({
+    id: s.id,
+    user_id: s.user_id,
+    user_name: s.user_name,
+    department_name: s.department_name,
+    start: s.start?.iso,
+    status: s.status,
+  }),
+  timesheet: (t: TandaTimesheet) => ({
+    id: t.id,
+    user_id: t.user_id,
+    date: t.date,
+    status: t.status,
+    shifts: t.shifts?.length,
+    hours: t.shifts && Math.round(t.shifts.reduce((total, s) => total + (workedHours(s.start, s.finish, s.breaks) || 0), 0) * 100) / 100,
+  }),
+  leave_request: (l: TandaLeaveRequest) => ({
+    id: l.id,
+    user_id: l.user_id,
+    leave_type: l.leave_type,
+    status: l.status,
+    start: l.start,
+    finish: l.finish,
+    hours: l.hours,
+  }),
+  leave_balance: (b: TandaLeaveBalance) => ({ user_id: b.user_id, leave_type: b.leave_type, balance: b.balance, unit: b.unit }),
+  unavailability: (u: TandaUnavailability) => ({
+    id: u.id,
+    user_id: u.user_id,
+    title: u.title,
+    start: u.start?.iso,
+    finish: u.finish?.iso,
+  }),
+  roster: (r: TandaRoster) => ({ id: r.id, start: r.start, finish: r.finish, published: r.published, schedules_count: r.schedules_count }),
+  department: (d: TandaDepartment) => ({ id: d.id, name: d.name, location_id: d.location_id }),
+  location: (l: TandaLocation) => ({ id: l.id, name: l.name, time_zone: l.time_zone }),
+  team: (t: TandaTeam) => ({ id: t.id, name: t.name, department_id: t.department_id }),
+  daily_stats: (s: TandaDailyStats) => ({
+    date: s.date,
+    department_id: s.department_id,
+    scheduled_hours: s.scheduled_hours,
+    actual_hours: s.actual_hours,
+    headcount: s.headcount,
+  }),
+  award_interpretation: (a: TandaAwardInterpretation) => ({
+    date: a.date,
+    user_id: a.user_id,
+    ordinary_hours: a.ordinary_hours,
+    overtime: a.overtime,
+    cost: a.cost,
+  }),
+  roster_cost: (c: TandaRosterCost) => ({
+    date: c.date,
+    department_id: c.department_id,
+    total_cost: c.total_cost ?? c.cost,
+    total_hours: c.total_hours,
+  }),
+};
+
+// Record type returned by each action. Actions not listed have no summary shape,
+// so summary falls back to compact for them.
+const ENTITY_TYPES = new Map<string, EntityType>([
+  ['users:list', 'user'],
+  ['users:get', 'user'],
+  ['users:inactive', 'user'],
+  ['users:by_department', 'user'],
+  ['users:current', 'user'],
+  ['schedules:list', 'schedule'],
+  ['schedules:get', 'schedule'],
+  ['schedules:create', 'schedule'],
+  ['schedules:update', 'schedule'],
+  ['timesheets:shifts', 'shift'],
+  ['timesheets:approve_shift', 'shift'],
+  ['timesheets:timesheets', 'timesheet'],
+  ['timesheets:approve_timesheet', 'timesheet'],
+  ['leave:list', 'leave_request'],
+  ['leave:create', 'leave_request'],
+  ['leave:approve', 'leave_request'],
+  ['leave:decline', 'leave_request'],
+  ['leave:balances', 'leave_balance'],
+  ['rosters:get', 'roster'],
+  ['rosters:current', 'roster'],
+  ['rosters:by_date', 'roster'],
+  ['reference:departments', 'department'],
+  ['reference:locations', 'location'],
+  ['reference:teams', 'team'],
+  ['reference:daily_stats', 'daily_stats'],
+  ['realtime:active_shifts', 'active_shift'],
+  ['realtime:clocked_in', 'user'],
+  ['realtime:award_interpretation', 'award_interpretation'],
+  ['realtime:roster_costs', 'roster_cost'],
+  ['unavailability:list', 'unavailability'],
+  ['unavailability:create', 'unavailability'],
+]);
+
+export function getEntityType(toolName: string, action?: string): EntityType | undefined {
+  return ENTITY_TYPES.get(`${toolName.replace('tanda_', '')}:${action}`);
+}
+
+// Read format and fields from tool arguments
+export function parseShapeOptions(args: Record<string, unknown>): { valid: boolean; options?: ShapeOptions; error?: string } {
+  const format = args.format ?? 'full';
+  if (!RESPONSE_FORMATS.includes(format as ResponseFormat)) {
+    return { valid: false, error: `Invalid format '${format}'. Use one of: ${RESPONSE_FORMATS.join(', ')}.` };
+  }
+  const fields = args.fields;
+  if (fields !== undefined &&
+    (!Array.isArray(fields) || fields.length === 0 || !fields.every(field => typeof field === 'string'))) {
+    return { valid: false, error: 'fields must be a non-empty array of field names' };
+  }
+  return { valid: true, options: { format: format as ResponseFormat, fields: fields as string[] | undefined } };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Drop null, undefined, '' and empty arrays/objects at every level
+export function compactValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(compactValue);
+  }
+  if (!isPlainObject(value)) {
+    return value;
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const compacted = compactValue(entry);
+    const empty = compacted === null || compacted === undefined || compacted === '' ||
+      (Array.isArray(compacted) && compacted.length === 0) ||
+      (isPlainObject(compacted) && Object.keys(compacted).length === 0);
+    if (!empty) result[key] = compacted;
+  }
+  return result;
+}
+
+// Summary shape of a record. Records come from Tanda untyped; the action that
+// returned them says which entity they are.
+function summarize<T extends EntityType>(entityType: T, record: unknown): Record<string, unknown> {
+  return SUMMARIZERS[entityType](record as EntityRecords[T]);
+}
+
+export function shapeRecord(record: unknown, entityType: EntityType | undefined, options: ShapeOptions): unknown {
+  if (!isPlainObject(record)) return record;
+
+  let shaped: unknown = record;
+  if (options.fields) {
+    shaped = Object.fromEntries(options.fields.filter(field => field in record).map(field => [field, record[field]]));
+  } else if (options.format === 'summary' && entityType) {
+    shaped = summarize(entityType, record);
+  }
+  return options.format === 'full' ? shaped : compactValue(shaped);
+}
+
+// Shape a single record or a list of records
+export function shapeContent(content: unknown, entityType: EntityType | undefined, options: ShapeOptions): unknown {
+  return Array.isArray(content)
+    ? content.map(record => shapeRecord(record, entityType, options))
+    : shapeRecord(content, entityType, options);
+}
+
+// Rough token count for a JSON payload (about 4 characters per token)
+export function estimateTokens(value: unknown): number {
+  return Math.ceil((JSON.stringify(value) ?? '').length / 4);
+}
@@ -1,20 +1,29 @@
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
 import { config } from '../config/environment';
 import { logger } from '../utils/logger';
-import { tandaTools, executeTool, getAvailableTools } from './tools';
+import { tandaTools, executeTool, getAvailableTools, ToolContext } from './tools';
 import { TandaClient } from '../tanda/client';
+import { MCPSession, SESSION_HEADER, mcpSessions } from './transport';
+import {
+  DEFAULT_HTTP_PROTOCOL_VERSION,
+  PROTOCOL_VERSION_HEADER,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  isSupportedProtocolVersion,
+  negotiateProtocolVersion,
+  supportsFeature,
+} from './protocol';
 
 // MCP Protocol Types
-interface MCPRequest {
+export interface MCPRequest {
   jsonrpc: '2.0';
   id: string | number;
   method: string;
   params?: Record<string, unknown>;
 }
 
-interface MCPResponse {
+export interface MCPResponse {
   jsonrpc: '2.0';
-  id: string | number;
+  id: string | number | null;  // null when the request's id could not be read
   result?: unknown;
   error?: {
     code: number;
@@ -23,8 +32,21 @@ interface MCPResponse {
   };
 }
 
+// Server-to-client notification (no id, no reply)
+export interface MCPNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+// Tool context plus a way to notify the client while the request runs (the session
+// stream over HTTP, stdout over stdio; absent when there is nowhere to send them)
+export interface RequestContext extends ToolContext {
+  notify?: (notification: MCPNotification) => void;
+}
+
 // MCP Error Codes
-const MCP_ERROR_CODES = {
+export const MCP_ERROR_CODES = {
   PARSE_ERROR: -32700,
   INVALID_REQUEST: -32600,
   METHOD_NOT_FOUND: -32601,
@@ -32,6 +54,36 @@ const MCP_ERROR_CODES = {
   INTERNAL_ERROR: -32603,
 };
 
+type JsonRpcMessage = Record<string, unknown>;
+
+function asMessage(value: unknown): JsonRpcMessage | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as JsonRpcMessage : null;
+}
+
+// Any JSON-RPC 2.0 message a client can send: a request or notification (has a
+// method), or a response to a server request (has a result or error instead)
+export function isJsonRpcMessage(value: unknown): boolean {
+  const message = asMessage(value);
+  if (!message || message.jsonrpc !== '2.0') return false;
+  if ('method' in message) return typeof message.method === 'string' && message.method.length > 0;
+  return 'id' in message && ('result' in message || 'error' in message);
+}
+
+// Requests carry an id (even a null one); notifications and responses get no reply
+function expectsReply(message: JsonRpcMessage): boolean {
+  return 'method' in message && 'id' in message;
+}
+
+// Whether a body can be handled before authenticating: initialize, plus messages
+// that get no reply (or only an error). Everything else needs a Tanda session.
+export function isHandshakeBody(body: unknown): boolean {
+  const messages = Array.isArray(body) ? body : [body];
+  return messages.every((value) => {
+    const message = asMessage(value);
+    return !message || message.method === 'initialize' || !expectsReply(message);
+  });
+}
+
 export class MCPHandler {
   private serverName: string;
   private serverVersion: string;
@@ -41,10 +93,56 @@ export class MCPHandler {
     this.serverVersion = config.MCP_SERVER_VERSION;
   }
 
+  // Handle a JSON-RPC message, or a batch of them concurrently. Returns null when
+  // nothing needs a reply: notifications and client responses are only acknowledged.
+  async handleMessages(
+    body: unknown,
+    tandaClient: TandaClient | null,
+    context: RequestContext = {}
+  ): Promise<MCPResponse | MCPResponse[] | null> {
+    if (!Array.isArray(body)) {
+      return this.handleMessage(body, tandaClient, context, false);
+    }
+    if (body.length === 0) {
+      return this.createErrorResponse(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid JSON-RPC 2.0 request');
+    }
+
+    const responses = await Promise.all(body.map((message) => this.handleMessage(message, tandaClient, context, true)));
+    const replies = responses.filter((response): response is MCPResponse => response !== null);
+    return replies.length > 0 ? replies : null;
+  }
+
+  private async handleMessage(
+    value: unknown,
+    tandaClient: TandaClient | null,
+    context: RequestContext,
+    inBatch: boolean
+  ): Promise<MCPResponse | null> {
+    const message = asMessage(value);
+    const id = typeof message?.id === 'string' || typeof message?.id === 'number' ? message.id : null;
+
+    if (!isJsonRpcMessage(message)) {
+      return this.createErrorResponse(id, MCP_ERROR_CODES.INVALID_REQUEST, 'Invalid JSON-RPC 2.0 request');
+    }
+    if (!expectsReply(message!)) {
+      logger.debug(message!.method ? `MCP notification: ${message!.method}` : `MCP client response: ${id}`);
+      return null;
+    }
+    if (id === null) {
+      return this.createErrorResponse(null, MCP_ERROR_CODES.INVALID_REQUEST, 'Request id must be a string or number');
+    }
+    if (inBatch && message!.method === 'initialize') {
+      return this.createErrorResponse(id, MCP_ERROR_CODES.INVALID_REQUEST, 'initialize must not be part of a batch');
+    }
+
+    return this.handleRequest(message as unknown as MCPRequest, tandaClient, context);
+  }
+
   // Handle incoming MCP request
   async handleRequest(
     request: MCPRequest,
-    tandaClient: TandaClient | null
+    tandaClient: TandaClient | null,
+    context: RequestContext = {}
   ): Promise<MCPResponse> {
     logger.debug(`MCP Request: ${request.method}`, { id: request.id, params: request.params });
 
@@ -54,10 +152,10 @@ export class MCPHandler {
           return this.handleInitialize(request);
 
         case 'tools/list':
-          return this.handleListTools(request);
+          return this.handleListTools(request, context);
 
         case 'tools/call':
-          return this.handleCallTool(request, tandaClient);
+          return this.handleCallTool(request, tandaClient, context);
 
         case 'resources/list':
           return this.handleListResources(request);
@@ -91,13 +189,14 @@ export class MCPHandler {
     }
   }
 
-  // Initialize handshake
+  // Initialize handshake: answer with the client's protocol version if we support it,
+  // otherwise our latest
   private handleInitialize(request: MCPRequest): MCPResponse {
     return {
       jsonrpc: '2.0',
       id: request.id,
       result: {
-        protocolVersion: '2024-11-05',
+        protocolVersion: negotiateProtocolVersion(request.params?.protocolVersion),
         serverInfo: {
           name: this.serverName,
           version: this.serverVersion,
@@ -118,13 +217,13 @@ export class MCPHandler {
     };
   }
 
-  // List available tools (v3.0: respects read-only mode)
-  private handleListTools(request: MCPRequest): MCPResponse {
+  // List available tools (v3.0: respects read-only mode; filtered by granted scopes)
+  private handleListTools(request: MCPRequest, context: ToolContext): MCPResponse {
     return {
       jsonrpc: '2.0',
       id: request.id,
       result: {
-        tools: getAvailableTools(),
+        tools: getAvailableTools(context),
       },
     };
   }
@@ -132,9 +231,14 @@ export class MCPHandler {
   // Call a tool
   private async handleCallTool(
     request: MCPRequest,
-    tandaClient: TandaClient | null
+    tandaClient: TandaClient | null,
+    context: RequestContext
   ): Promise<MCPResponse> {
-    const params = request.params as { name: string; arguments?: Record<string, unknown> } | undefined;
+    const params = request.params as {
+      name: string;
+      arguments?: Record<string, unknown>;
+      _meta?: { progressToken?: string | number };
+    } | undefined;
 
     if (!params?.name) {
       return this.createErrorResponse(
@@ -161,7 +265,12 @@ export class MCPHandler {
       );
     }
 
-    const result = await executeTool(tandaClient, params.name, params.arguments || {});
+    const onProgress = this.createProgressReporter(params._meta?.progressToken, context);
+    const result = await executeTool(tandaClient, params.name, params.arguments || {}, { ...context, onProgress });
+
+    // Clients on 2025-06-18 or later also get the result as JSON (it must be an object)
+    const structured = supportsFeature(context.protocolVersion, 'structured_output') &&
+      result.content !== null && typeof result.content === 'object' && !Array.isArray(result.content);
 
     return {
       jsonrpc: '2.0',
@@ -173,11 +282,33 @@ export class MCPHandler {
             text: JSON.stringify(result.content, null, 2),
           },
         ],
+        structuredContent: structured ? result.content : undefined,
         isError: result.isError,
+        _meta: result.meta,  // Response format and token-size estimates
       },
     };
   }
 
+  // Progress callback that sends notifications/progress for the client's token, or
+  // undefined when the client did not ask for progress or it cannot be delivered
+  private createProgressReporter(
+    progressToken: string | number | undefined,
+    context: RequestContext
+  ): ToolContext['onProgress'] {
+    const notify = context.notify;
+    if ((typeof progressToken !== 'string' && typeof progressToken !== 'number') || !notify) {
+      return undefined;
+    }
+    const withMessage = supportsFeature(context.protocolVersion, 'progress_messages');
+    return (progress, total, message) => {
+      notify({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message: withMessage ? message : undefined },
+      });
+    };
+  }
+
   // List resources
   private handleListResources(request: MCPRequest): MCPResponse {
     return {
@@ -554,7 +685,7 @@ Steps:
 
   // Create error response
   private createErrorResponse(
-    id: string | number,
+    id: string | number | null,
     code: number,
     message: string,
     data?: unknown
@@ -576,13 +707,14 @@ export function createMCPRouter() {
   const mcpHandler = new MCPHandler();
 
   return async (req: Request, res: Response): Promise<void> => {
-    // Validate JSON-RPC request
-    const request = req.body as MCPRequest;
+    // Validate JSON-RPC message (batch entries are validated one by one)
+    const body = req.body as unknown;
+    const batch = Array.isArray(body);
 
-    if (!request || request.jsonrpc !== '2.0' || !request.method) {
+    if (batch ? body.length === 0 : !isJsonRpcMessage(body)) {
       res.status(400).json({
         jsonrpc: '2.0',
-        id: request?.id ?? null,
+        id: asMessage(body)?.id ?? null,
         error: {
           code: MCP_ERROR_CODES.INVALID_REQUEST,
           message: 'Invalid JSON-RPC 2.0 request',
@@ -591,12 +723,103 @@ export function createMCPRouter() {
       return;
     }
 
+    // Clients name the protocol version they agreed on initialize in every later request
+    const versionHeader = req.get(PROTOCOL_VERSION_HEADER);
+    if (versionHeader !== undefined && !isSupportedProtocolVersion(versionHeader)) {
+      res.status(400).json({
+        jsonrpc: '2.0',
+        id: batch ? null : asMessage(body)?.id ?? null,
+        error: {
+          code: MCP_ERROR_CODES.INVALID_REQUEST,
+          message: `Unsupported protocol version: ${versionHeader}`,
+          data: { supported: SUPPORTED_PROTOCOL_VERSIONS },
+        },
+      });
+      return;
+    }
+
+    // initialize starts a new MCP session; later requests may name theirs.
+    // Requests without an Mcp-Session-Id are still served, without a stream.
+    let session: MCPSession | undefined;
+    const sessionId = req.get(SESSION_HEADER);
+    if (!batch && (body as MCPRequest).method === 'initialize') {
+      session = mcpSessions.create(req.auth?.sessionId);
+      if (!session) {
+        res.status(503).json({
+          jsonrpc: '2.0',
+          id: (body as MCPRequest).id ?? null,
+          error: {
+            code: MCP_ERROR_CODES.INTERNAL_ERROR,
+            message: 'Too many open MCP sessions. Try again later.',
+          },
+        });
+        return;
+      }
+      session.protocolVersion = negotiateProtocolVersion((body as MCPRequest).params?.protocolVersion);
+      res.setHeader(SESSION_HEADER, session.id);
+    } else if (sessionId) {
+      session = mcpSessions.get(sessionId, req.auth?.sessionId);
+      if (!session) {
+        res.status(404).json({
+          jsonrpc: '2.0',
+          id: batch ? null : asMessage(body)?.id ?? null,
+          error: {
+            code: MCP_ERROR_CODES.INVALID_REQUEST,
+            message: 'Unknown or expired MCP session. Send initialize to start a new one.',
+          },
+        });
+        return;
+      }
+    }
+
+    let connectionClosed = false;
+    res.on('close', () => {
+      connectionClosed = true;
+    });
+
     // Get Tanda client from auth middleware (may be null for unauthenticated requests)
     const tandaClient = req.auth?.tandaClient || null;
 
-    const response = await mcpHandler.handleRequest(request, tandaClient);
+    const response = await mcpHandler.handleMessages(body, tandaClient, {
+      scopes: req.auth?.scopes,
+      role: req.auth?.role,
+      departmentIds: req.auth?.departmentIds,
+      sessionId: req.auth?.sessionId,
+      protocolVersion: session?.protocolVersion ?? versionHeader ?? DEFAULT_HTTP_PROTOCOL_VERSION,
+      // Progress goes to the session's GET stream while the POST waits for the result
+      notify: session ? (notification) => mcpSessions.send(session!, notification) : undefined,
+    });
+
+    // Notifications and responses only: accepted, with no body
+    if (response === null) {
+      res.status(202).end();
+      return;
+    }
+
+    // The client gave up on the POST before the response was ready. Responses only
+    // belong on the request's own connection, never the GET stream, so it is dropped.
+    if (connectionClosed) {
+      logger.debug('MCP client disconnected before the response was ready; dropping it');
+      return;
+    }
     res.json(response);
   };
 }
 
+// Express error handler for MCP request bodies that are not JSON: a JSON-RPC parse error
+export function handleMCPParseError(err: Error & { type?: string }, req: Request, res: Response, next: NextFunction): void {
+  if (err.type !== 'entity.parse.failed' || req.method !== 'POST' || !['/', '/mcp'].includes(req.path)) {
+    next(err);
+    return;
+  }
+  res.status(400).json({
+    jsonrpc: '2.0',
+    id: null,
+    error: {
+      code: MCP_ERROR_CODES.PARSE_ERROR,
+      message: 'Parse error',
+    },
+  });
+}
+
 export const mcpHandler = new MCPHandler();
@@ -0,0 +1,37 @@
+// MCP protocol versions. initialize agrees a version with each client, and features
+// added in later versions are only used with clients that agreed to one of them.
+
+// Newest first
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+// Assumed for HTTP requests with no session and no MCP-Protocol-Version header (per spec)
+export const DEFAULT_HTTP_PROTOCOL_VERSION = '2025-03-26';
+
+export const PROTOCOL_VERSION_HEADER = 'MCP-Protocol-Version';
+
+// First version with each feature
+const FEATURE_VERSIONS = {
+  tool_annotations: '2025-03-26',   // readOnlyHint/destructiveHint on tools/list
+  progress_messages: '2025-03-26',  // message on notifications/progress
+  structured_output: '2025-06-18',  // structuredContent on tools/call results
+};
+
+export type ProtocolFeature = keyof typeof FEATURE_VERSIONS;
+
+export function isSupportedProtocolVersion(version: unknown): version is string {
+  return typeof version === 'string' && SUPPORTED_PROTOCOL_VERSIONS.includes(version);
+}
+
+// The client's requested version if supported, otherwise the latest we support
+// (the client then decides whether it can continue)
+export function negotiateProtocolVersion(requested: unknown): string {
+  return isSupportedProtocolVersion(requested) ? requested : LATEST_PROTOCOL_VERSION;
+}
+
+// Versions are dates, so they order as strings. Without an agreed version only the
+// oldest protocol's features are used.
+export function supportsFeature(version: string | undefined, feature: ProtocolFeature): boolean {
+  return version !== undefined && version >= FEATURE_VERSIONS[feature];
+}
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+import { config } from '../config/environment';
+
+// Short-lived copies of list results, so cursor pages are served without
+// re-fetching from Tanda and stay consistent between pages
+
+interface ResultSnapshot {
+  ownerId?: string;
+  toolName: string;
+  data: unknown[];
+  expiresAt: number;
+}
+
+// What an opaque next_cursor encodes: the query it belongs to plus the position
+export interface PageCursor {
+  snapshotId: string;
+  toolName: string;
+  args: Record<string, unknown>;
+  offset: number;
+  limit: number;
+}
+
+// Each caller (session) keeps its own most recent snapshots, so one caller paging
+// quickly can't evict everyone else's; the overall limit is only a backstop
+const MAX_SNAPSHOTS_PER_OWNER = 10;
+const MAX_SNAPSHOTS = 1000;
+
+export class ResultSnapshotStore {
+  private snapshots = new Map<string, ResultSnapshot>();
+
+  constructor(
+    private ttlMs: number,
+    private maxPerOwner: number = MAX_SNAPSHOTS_PER_OWNER,
+    private maxSnapshots: number = MAX_SNAPSHOTS
+  ) {}
+
+  create(toolName: string, data: unknown[], ownerId?: string): string {
+    // Evict the owner's oldest snapshots, then the oldest overall once full
+    // (Map iterates in insertion order)
+    const owned = Array.from(this.snapshots).filter(([, snapshot]) => snapshot.ownerId === ownerId);
+    for (const [id] of owned.slice(0, Math.max(owned.length - this.maxPerOwner + 1, 0))) {
+      this.snapshots.delete(id);
+    }
+    while (this.snapshots.size >= this.maxSnapshots) {
+      this.snapshots.delete(this.snapshots.keys().next().value!);
+    }
+    const id = crypto.randomUUID();
+    this.snapshots.set(id, { ownerId, toolName, data, expiresAt: Date.now() + this.ttlMs });
+    return id;
+  }
+
+  // Snapshot data, or undefined if it has expired or belongs to another caller
+  get(id: string, toolName: string, ownerId?: string): unknown[] | undefined {
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot || snapshot.toolName !== toolName || snapshot.ownerId !== ownerId) {
+      return undefined;
+    }
+    if (Date.now() > snapshot.expiresAt) {
+      this.snapshots.delete(id);
+      return undefined;
+    }
+    return snapshot.data;
+  }
+
+  purgeExpired(now: number = Date.now()): number {
+    let removed = 0;
+    for (const [id, snapshot] of this.snapshots) {
+      if (now > snapshot.expiresAt) {
+        this.snapshots.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  get size(): number {
+    return this.snapshots.size;
+  }
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// Decode a cursor issued for this tool, or null if it is malformed
+export function decodeCursor(value: unknown, toolName: string): PageCursor | null {
+  if (typeof value !== 'string' || value.length === 0) return null;
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8')) as PageCursor;
+    const valid = typeof cursor.snapshotId === 'string' &&
+      cursor.toolName === toolName &&
+      typeof cursor.args === 'object' && cursor.args !== null &&
+      Number.isInteger(cursor.offset) && cursor.offset >= 0 &&
+      Number.isInteger(cursor.limit) && cursor.limit > 0;
+    return valid ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Singleton instance
+export const resultSnapshots = new ResultSnapshotStore(config.MCP_CURSOR_TTL_SECONDS * 1000);
+
+// Cleanup interval (unref'd so it never keeps the process alive on its own)
+setInterval(() => resultSnapshots.purgeExpired(), 60 * 1000).unref(); // Run every minute
@@ -0,0 +1,146 @@
+import readline from 'readline';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+import { oauthManager } from '../auth/oauth';
+import { TandaClient } from '../tanda/client';
+import { MCP_ERROR_CODES, MCPNotification, mcpHandler } from './handler';
+import { ToolContext } from './tools';
+
+// Stdio transport for local MCP clients that run the server as a subprocess: one
+// JSON-RPC message per line on stdin, one response per line on stdout. There is no
+// OAuth redirect, so credentials come from config instead.
+
+export interface StdioAuth {
+  tandaClient: TandaClient;
+  context: ToolContext;
+}
+
+// State of one stdio connection: the protocol version agreed on initialize
+export interface StdioSession {
+  protocolVersion?: string;
+}
+
+// Client for TANDA_ACCESS_TOKEN, kept so its caches last the whole process
+let accessTokenClient: TandaClient | undefined;
+
+// Connection used when the caller doesn't track its own (the process's stdin)
+const processSession: StdioSession = {};
+
+// Credentials for stdio requests: an API key issued by /admin/api-keys (with its
+// scopes, role and department scope), or a Tanda access token with every scope and
+// no role checks (full read and write access unless MCP_READ_ONLY_MODE is on).
+// Checked per message so a revoked API key stops working straight away.
+export function resolveStdioAuth(): StdioAuth | null {
+  if (config.MCP_STDIO_API_KEY) {
+    const payload = oauthManager.verifyApiKey(config.MCP_STDIO_API_KEY);
+    const tandaClient = payload ? oauthManager.getTandaClient(payload.sessionId) : null;
+    if (!payload || !tandaClient) {
+      return null;
+    }
+    return {
+      tandaClient,
+      context: {
+        scopes: payload.scope?.split(' '),
+        role: oauthManager.getSessionRole(payload.sessionId),
+        departmentIds: oauthManager.getSessionDepartmentScope(payload.sessionId),
+        sessionId: payload.sessionId,
+      },
+    };
+  }
+
+  if (config.TANDA_ACCESS_TOKEN) {
+    accessTokenClient = accessTokenClient || new TandaClient(config.TANDA_ACCESS_TOKEN);
+    return { tandaClient: accessTokenClient, context: {} };
+  }
+
+  return null;
+}
+
+// Handle one line of input (a message or a batch), returning the response line, or
+// null when nothing needs a reply. Notifications sent while it runs go to notify.
+export async function handleStdioMessage(
+  line: string,
+  notify?: (notification: MCPNotification) => void,
+  session: StdioSession = processSession
+): Promise<string | null> {
+  let body: unknown;
+  try {
+    body = JSON.parse(line);
+  } catch {
+    return JSON.stringify({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: MCP_ERROR_CODES.PARSE_ERROR, message: 'Parse error' },
+    });
+  }
+
+  // The version is agreed once per connection; a second initialize can't change it
+  const message = body as { id?: unknown; method?: unknown } | null;
+  const initialize = !Array.isArray(body) && message?.method === 'initialize';
+  if (initialize && session.protocolVersion) {
+    return JSON.stringify({
+      jsonrpc: '2.0',
+      id: message!.id ?? null,
+      error: { code: MCP_ERROR_CODES.INVALID_REQUEST, message: 'Already initialized' },
+    });
+  }
+
+  const auth = resolveStdioAuth();
+  const response = await mcpHandler.handleMessages(body, auth?.tandaClient || null, {
+    ...auth?.context,
+    protocolVersion: session.protocolVersion,
+    notify,
+  });
+
+  // Only an initialize that succeeded sets the version
+  const result = (response as { result?: { protocolVersion?: unknown } } | null)?.result;
+  if (initialize && typeof result?.protocolVersion === 'string') {
+    session.protocolVersion = result.protocolVersion;
+  }
+  return response === null ? null : JSON.stringify(response);
+}
+
+// Serve requests from input until it closes. Requests are handled concurrently and
+// each response is written as soon as it is ready.
+export function startStdioServer(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout
+): Promise<void> {
+  const auth = resolveStdioAuth();
+  if (!auth) {
+    logger.warn('No valid MCP_STDIO_API_KEY or TANDA_ACCESS_TOKEN configured - tool calls will be refused');
+  } else if (!config.MCP_STDIO_API_KEY && !config.MCP_READ_ONLY_MODE) {
+    logger.warn('TANDA_ACCESS_TOKEN grants every scope with no role checks - use MCP_STDIO_API_KEY or MCP_READ_ONLY_MODE to limit it');
+  }
+
+  const session: StdioSession = {};
+  const pending = new Set<Promise<void>>();
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  const notify = (notification: MCPNotification) => {
+    output.write(`${JSON.stringify(notification)}\n`);
+  };
+
+  lines.on('line', (line) => {
+    if (!line.trim()) return;
+    const task = handleStdioMessage(line, notify, session)
+      .then((response) => {
+        if (response !== null) {
+          output.write(`${response}\n`);
+        }
+      })
+      .catch((error) => {
+        logger.error('Stdio request failed:', error);
+      })
+      .finally(() => pending.delete(task));
+    pending.add(task);
+  });
+
+  logger.info('MCP stdio transport ready');
+
+  return new Promise((resolve) => {
+    lines.on('close', () => {
+      Promise.all(pending).then(() => resolve());
+    });
+  });
+}
@@ -1,32 +1,42 @@
 import { TandaClient, TandaApiError } from '../tanda/client';
+import { DateRangeFilter, ProgressCallback, TandaRoster, TandaUser } from '../tanda/types';
 import { logger } from '../utils/logger';
 import { config } from '../config/environment';
 import { SupervisorOptimizer } from '../supervisor/optimizer';
 import { OptimizationRequest } from '../supervisor/types';
+import { UserRole, hasRole } from '../auth/roles';
+import { decodeCursor, encodeCursor, resultSnapshots } from './snapshots';
+import { EntityType, RESPONSE_FORMATS, ResponseMeta, ShapeOptions, estimateTokens, getEntityType, parseShapeOptions, shapeContent } from './formatting';
+import { supportsFeature } from './protocol';
+import { eachDate } from '../utils/dates';
 
 // ==================== v4.0 Refactored Tools ====================
 // Consolidated from 44 tools to 9 grouped tools with action parameters
 // Optimized for Claude.ai context window efficiency
 
-// v4.0: Write actions that are blocked in read-only mode
-const WRITE_ACTIONS = new Set([
-  'users:onboard',
-  'users:invite',
-  'schedules:create',
-  'schedules:update',
-  'schedules:delete',
-  'schedules:publish',
-  'timesheets:approve_shift',
-  'timesheets:approve_timesheet',
-  'leave:create',
-  'leave:approve',
-  'leave:decline',
-  'leave:delete',
-  'unavailability:create',
-  'unavailability:delete',
-  'supervisors:create_optimized',
+// v4.0: Write actions that are blocked in read-only mode, with the OAuth scope and minimum
+// role each requires. Every other action requires the tool group's read scope and any role.
+const WRITE_ACTIONS = new Map<string, { scope: string; role: UserRole }>([
+  ['users:onboard', { scope: 'users:write', role: 'admin' }],
+  ['users:invite', { scope: 'users:write', role: 'manager' }],
+  ['schedules:create', { scope: 'schedules:write', role: 'manager' }],
+  ['schedules:update', { scope: 'schedules:write', role: 'manager' }],
+  ['schedules:delete', { scope: 'schedules:write', role: 'manager' }],
+  ['schedules:publish', { scope: 'schedules:write', role: 'manager' }],
+  ['timesheets:approve_shift', { scope: 'timesheets:approve', role: 'manager' }],
+  ['timesheets:approve_timesheet', { scope: 'timesheets:approve', role: 'manager' }],
+  ['leave:create', { scope: 'leave:write', role: 'employee' }],
+  ['leave:approve', { scope: 'leave:approve', role: 'manager' }],
+  ['leave:decline', { scope: 'leave:approve', role: 'manager' }],
+  ['leave:delete', { scope: 'leave:write', role: 'employee' }],
+  ['unavailability:create', { scope: 'unavailability:write', role: 'employee' }],
+  ['unavailability:delete', { scope: 'unavailability:write', role: 'employee' }],
+  ['supervisors:create_optimized', { scope: 'supervisors:create', role: 'manager' }],
 ]);
 
+// Actions that overwrite or remove existing data (other write actions only add to it)
+const DESTRUCTIVE_ACTIONS = ['update', 'delete', 'decline'];
+
 // MCP Tool Definitions
 export interface MCPTool {
   name: string;
@@ -36,6 +46,23 @@ export interface MCPTool {
     properties: Record<string, unknown>;
     required?: string[];
   };
+  annotations?: MCPToolAnnotations;
+}
+
+// Behaviour hints for clients (protocol 2025-03-26 and later)
+export interface MCPToolAnnotations {
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+}
+
+// Caller context for tool listing and execution
+export interface ToolContext {
+  scopes?: string[];  // Granted OAuth scopes (undefined = unrestricted)
+  role?: UserRole;    // Caller's role (undefined = unrestricted)
+  departmentIds?: number[];  // Managed departments when department scoping applies (undefined = unscoped)
+  sessionId?: string;  // Caller's session, which owns the result snapshots behind its cursors
+  protocolVersion?: string;  // MCP protocol version agreed with the client (undefined = oldest supported)
+  onProgress?: ProgressCallback;  // Told as long-running actions make progress (set when the client asked for it)
 }
 
 // ==================== Pagination & Validation Helpers ====================
@@ -47,27 +74,82 @@ interface PaginatedResponse<T> {
     limit: number;
     total: number;
     hasMore: boolean;
+    next_cursor?: string;  // Opaque cursor for the next page, while its snapshot lasts
   };
 }
 
-function paginateResults<T>(data: T[], page: number = 1, limit: number = 50): PaginatedResponse<T> {
-  const safeLimit = Math.min(Math.max(limit, 1), 200);
-  const safePage = Math.max(page, 1);
-  const start = (safePage - 1) * safeLimit;
-  const paginatedData = data.slice(start, start + safeLimit);
-  
+// Full list returned by an executor. executeTool slices the requested page out of
+// it and snapshots the list when there are more pages, for next_cursor.
+class ListResult<T = unknown> {
+  constructor(public data: T[], public page: number, public limit: number) {}
+}
+
+function paginateResults<T>(data: T[], page: number = 1, limit: number = 50): ListResult<T> {
+  return new ListResult(data, page, limit);
+}
+
+// Slice a page starting at offset. The cursor for the next page reuses the snapshot
+// it came from, or snapshots the list the first time a page is left over.
+function buildPage<T>(
+  data: T[],
+  offset: number,
+  limit: number,
+  query: { toolName: string; args: Record<string, unknown>; ownerId?: string; snapshotId?: string }
+): PaginatedResponse<T> {
+  const end = offset + limit;
+  const hasMore = end < data.length;
+  const pagination: PaginatedResponse<T>['pagination'] = {
+    page: Math.floor(offset / limit) + 1,
+    limit,
+    total: data.length,
+    hasMore,
+  };
+
+  if (hasMore) {
+    const snapshotId = query.snapshotId ?? resultSnapshots.create(query.toolName, data, query.ownerId);
+    pagination.next_cursor = encodeCursor({ snapshotId, toolName: query.toolName, args: query.args, offset: end, limit });
+  }
+  return { data: data.slice(offset, end), pagination };
+}
+
+function isPaginatedResponse(content: unknown): content is PaginatedResponse<unknown> {
+  return typeof content === 'object' && content !== null &&
+    Array.isArray((content as PaginatedResponse<unknown>).data) && 'pagination' in content;
+}
+
+// Apply format and fields to a successful result (each record of a page, or the
+// result itself) and report its estimated size
+function shapeResult(
+  result: { content: unknown; isError?: boolean },
+  entityType: EntityType | undefined,
+  options: ShapeOptions
+): { content: unknown; isError?: boolean; meta?: ResponseMeta } {
+  if (result.isError) return result;
+
+  const content = result.content;
+  const shaped = options.format === 'full' && !options.fields
+    ? content
+    : isPaginatedResponse(content)
+      ? { ...content, data: shapeContent(content.data, entityType, options) }
+      : shapeContent(content, entityType, options);
+  const estimatedTokens = estimateTokens(shaped);
+
   return {
-    data: paginatedData,
-    pagination: {
-      page: safePage,
-      limit: safeLimit,
-      total: data.length,
-      hasMore: start + safeLimit < data.length,
+    ...result,
+    content: shaped,
+    meta: {
+      format: options.format,
+      fields: options.fields,
+      estimated_tokens: estimatedTokens,
+      full_estimated_tokens: shaped === content ? estimatedTokens : estimateTokens(content),
     },
   };
 }
 
-function validateDateRange(from: string, to: string, maxDays: number = 14): { valid: boolean; error?: string } {
+// Longest range Tanda accepts in one request
+const TANDA_MAX_RANGE_DAYS = 14;
+
+function validateDateRange(from: string, to: string, maxDays: number = TANDA_MAX_RANGE_DAYS): { valid: boolean; error?: string } {
   const fromDate = new Date(from);
   const toDate = new Date(to);
   
@@ -88,10 +170,190 @@ function validateDateRange(from: string, to: string, maxDays: number = 14): { va
   return { valid: true };
 }
 
+// ==================== Date Range Chunking ====================
+// When MCP_AUTO_CHUNK is on, list actions accept ranges up to MCP_MAX_RANGE_DAYS.
+// Longer ranges are fetched as Tanda-safe windows in parallel and merged.
+
+// Range check for actions whose fetches can be split into windows
+function validateFetchRange(from: string, to: string): { valid: boolean; error?: string } {
+  return validateDateRange(from, to, config.MCP_AUTO_CHUNK ? config.MCP_MAX_RANGE_DAYS : TANDA_MAX_RANGE_DAYS);
+}
+
+// Split an inclusive YYYY-MM-DD range into consecutive windows Tanda accepts
+export function splitDateRange(from: string, to: string, windowDays: number = TANDA_MAX_RANGE_DAYS): DateRangeFilter[] {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const end = new Date(to).getTime();
+  const windows: DateRangeFilter[] = [];
+  for (let start = new Date(from).getTime(); start <= end; start += windowDays * dayMs) {
+    windows.push({
+      from: new Date(start).toISOString().split('T')[0],
+      to: new Date(Math.min(start + (windowDays - 1) * dayMs, end)).toISOString().split('T')[0],
+    });
+  }
+  return windows;
+}
+
+// Fetch a range window by window. Entity lists (dedupeById) drop records returned by
+// more than one window, e.g. overnight shifts or leave spanning a window boundary.
+// Per-day aggregates are kept whole: roster costs share their roster's id across days.
+async function fetchInWindows<T, F extends Partial<DateRangeFilter>>(
+  filter: F,
+  fetch: (filter: F) => Promise<T[]>,
+  dedupeById: boolean = false
+): Promise<T[]> {
+  if (!filter.from || !filter.to) return fetch(filter);
+  const windows = splitDateRange(filter.from, filter.to);
+  if (windows.length <= 1) return fetch(filter);
+
+  const results = (await Promise.all(windows.map(window => fetch({ ...filter, ...window })))).flat();
+  if (!dedupeById) return results;
+
+  const seen = new Set<unknown>();
+  return results.filter(record => {
+    const id = (record as { id?: unknown }).id;
+    if (id === undefined || id === null) return true;
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+}
+
+// Progress for a range fetched window by window, counted in days across all windows
+function progressAcrossWindows(filter: DateRangeFilter, onProgress?: ProgressCallback): ProgressCallback | undefined {
+  if (!onProgress) return undefined;
+  const total = eachDate(filter.from, filter.to).length;
+  let done = 0;
+  return (_progress, _total, message) => onProgress(++done, total, message);
+}
+
+// Client whose date-ranged fetches are split into windows (other methods are unchanged)
+function withWindowedFetches(client: TandaClient): TandaClient {
+  const windowed = Object.create(client) as TandaClient;
+  windowed.getSchedules = filter => fetchInWindows(filter, f => client.getSchedules(f), true);
+  windowed.getShifts = filter => fetchInWindows(filter, f => client.getShifts(f), true);
+  windowed.getTimesheets = (filter, onProgress) => {
+    const progress = progressAcrossWindows(filter, onProgress);
+    return fetchInWindows(filter, f => client.getTimesheets(f, progress));
+  };
+  windowed.getLeaveRequests = filter => fetchInWindows(filter || {}, f => client.getLeaveRequests(f), true);
+  windowed.getUnavailability = filter => fetchInWindows(filter, f => client.getUnavailability(f), true);
+  windowed.getDailyStats = filter => fetchInWindows(filter, f => client.getDailyStats(f));
+  windowed.getAwardInterpretation = filter => fetchInWindows(filter, f => client.getAwardInterpretation(f));
+  windowed.getRosterCosts = (filter, onProgress) => {
+    const progress = progressAcrossWindows(filter, onProgress);
+    return fetchInWindows(filter, f => client.getRosterCosts(f, progress));
+  };
+  return windowed;
+}
+
+// Tool descriptions advertise the longer range while chunking is on
+function withRangeLimit(tool: MCPTool): MCPTool {
+  if (!config.MCP_AUTO_CHUNK) return tool;
+  return {
+    ...tool,
+    description: tool.description.replace(`Max ${TANDA_MAX_RANGE_DAYS}-day range`, `Max ${config.MCP_MAX_RANGE_DAYS}-day range`),
+  };
+}
+
+// ==================== Department Scoping Helpers ====================
+// Used when MCP_DEPARTMENT_SCOPING restricts a manager to their managed departments.
+// A scope of undefined means unscoped (admins, or scoping turned off).
+
+function outsideScope(what: string): { content: unknown; isError: boolean } {
+  return { content: { error: `${what} is outside your managed departments` }, isError: true };
+}
+
+// Intersect a department_ids filter with the scope (no filter = the whole scope)
+function scopeDepartmentIds(requested: number[] | undefined, scope: number[]): number[] {
+  return requested?.length ? requested.filter(id => scope.includes(id)) : scope;
+}
+
+function isDepartmentInScope(departmentId: number | undefined, scope: number[]): boolean {
+  return departmentId !== undefined && scope.includes(departmentId);
+}
+
+function isUserInScope(user: TandaUser, scope: number[]): boolean {
+  return (user.department_ids || []).some(id => scope.includes(id)) ||
+    isDepartmentInScope(user.report_department_id, scope);
+}
+
+// Ids of staff in the scoped departments, for endpoints that can only filter by user
+async function getScopedUserIds(client: TandaClient, scope: number[]): Promise<number[]> {
+  if (scope.length === 0) return [];
+  const users = await client.getUsers({ department_ids: scope });
+  return users.map(user => user.id);
+}
+
+// Intersect a user_ids filter with the staff in scope (no filter = all staff in scope)
+async function scopeUserIds(client: TandaClient, requested: number[] | undefined, scope: number[]): Promise<number[]> {
+  const allowed = await getScopedUserIds(client, scope);
+  return requested?.length ? requested.filter(id => allowed.includes(id)) : allowed;
+}
+
+// Client that only returns staff, departments, schedules and unavailability in the
+// scope, so the supervisor optimizer never sees (or places staff in) other departments
+function withDepartmentScope(client: TandaClient, scope: number[]): TandaClient {
+  const scoped = Object.create(client) as TandaClient;
+  scoped.getDepartments = async () => (await client.getDepartments()).filter(dept => scope.includes(dept.id));
+  scoped.getUsers = async filter => {
+    if (scope.length === 0) return [];
+    const users = await client.getUsers({ ...filter, department_ids: scopeDepartmentIds(filter?.department_ids, scope) });
+    return users.filter(user => isUserInScope(user, scope));
+  };
+  scoped.getSchedules = async filter => {
+    if (scope.length === 0) return [];
+    const schedules = await client.getSchedules({ ...filter, department_ids: scopeDepartmentIds(filter.department_ids, scope) });
+    return schedules.filter(schedule => isDepartmentInScope(schedule.department_id, scope));
+  };
+  scoped.getUnavailability = async filter => {
+    const userIds = await scopeUserIds(client, filter.user_ids, scope);
+    if (userIds.length === 0) return [];
+    const unavailability = await client.getUnavailability({ ...filter, user_ids: userIds });
+    return unavailability.filter(entry => userIds.includes(entry.user_id));
+  };
+  return scoped;
+}
+
+// A roster covers every department: keep the scoped departments' schedules and drop
+// the roster-wide totals
+function scopeRoster(roster: TandaRoster, scope: number[]): TandaRoster {
+  return {
+    ...roster,
+    cost: undefined,
+    schedules_count: undefined,
+    department_ids: roster.department_ids?.filter(id => scope.includes(id)),
+    schedules: roster.schedules?.map(day => ({
+      ...day,
+      schedules: day.schedules.filter(schedule => isDepartmentInScope(schedule.department_id, scope)),
+    })),
+  };
+}
+
+// Error result if the user is outside the scope, otherwise null
+async function checkUserScope(
+  client: TandaClient,
+  userId: number,
+  scope?: number[]
+): Promise<{ content: unknown; isError: boolean } | null> {
+  if (!scope) return null;
+  const allowed = await getScopedUserIds(client, scope);
+  return allowed.includes(userId) ? null : outsideScope(`User ${userId}`);
+}
+
 // ==================== Consolidated Tool Definitions ====================
 
 const LITE_MODE_TOOLS = ['tanda_users', 'tanda_schedules', 'tanda_reference', 'tanda_timesheets', 'tanda_leave', 'tanda_realtime'];
 
+// Accepted by every tool to trim what comes back
+const RESPONSE_SHAPE_PROPERTIES = {
+  fields: { type: 'array', items: { type: 'string' }, description: 'Only return these fields of each record' },
+  format: {
+    type: 'string',
+    enum: [...RESPONSE_FORMATS],
+    description: 'full (default), summary (key fields only) or compact (drop empty values)',
+  },
+};
+
 export const tandaTools: MCPTool[] = [
   // 1. USER MANAGEMENT
   {
@@ -127,6 +389,8 @@ export const tandaTools: MCPTool[] = [
         },
         limit: { type: 'number', description: 'Max records (default 50, max 200)' },
         page: { type: 'number', description: 'Page number' },
+        cursor: { type: 'string', description: 'next_cursor from a previous page (replaces the other arguments)' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -157,6 +421,8 @@ export const tandaTools: MCPTool[] = [
         show_costs: { type: 'boolean', description: 'Include costs (for list)' },
         limit: { type: 'number', description: 'Max records (default 50, max 200)' },
         page: { type: 'number', description: 'Page number' },
+        cursor: { type: 'string', description: 'next_cursor from a previous page (replaces the other arguments)' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -183,6 +449,8 @@ export const tandaTools: MCPTool[] = [
         include_costs: { type: 'boolean', description: 'Include costs' },
         limit: { type: 'number', description: 'Max records (default 50, max 200)' },
         page: { type: 'number', description: 'Page number' },
+        cursor: { type: 'string', description: 'next_cursor from a previous page (replaces the other arguments)' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -213,6 +481,8 @@ export const tandaTools: MCPTool[] = [
         status: { type: 'string', enum: ['pending', 'approved', 'declined'], description: 'Filter/set status' },
         limit: { type: 'number', description: 'Max records (default 50, max 200)' },
         page: { type: 'number', description: 'Page number' },
+        cursor: { type: 'string', description: 'next_cursor from a previous page (replaces the other arguments)' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -233,6 +503,7 @@ export const tandaTools: MCPTool[] = [
         roster_id: { type: 'number', description: 'Roster ID (for get)' },
         date: { type: 'string', description: 'Date YYYY-MM-DD (for by_date)' },
         show_costs: { type: 'boolean', description: 'Include costs' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -255,6 +526,8 @@ export const tandaTools: MCPTool[] = [
         department_ids: { type: 'array', items: { type: 'number' }, description: 'Filter by depts (for daily_stats)' },
         limit: { type: 'number', description: 'Max records (default 50, max 200)' },
         page: { type: 'number', description: 'Page number' },
+        cursor: { type: 'string', description: 'next_cursor from a previous page (replaces the other arguments)' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -278,6 +551,8 @@ export const tandaTools: MCPTool[] = [
         department_ids: { type: 'array', items: { type: 'number' }, description: 'Filter by depts (for roster_costs)' },
         limit: { type: 'number', description: 'Max records (default 50, max 200)' },
         page: { type: 'number', description: 'Page number' },
+        cursor: { type: 'string', description: 'next_cursor from a previous page (replaces the other arguments)' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -306,6 +581,8 @@ export const tandaTools: MCPTool[] = [
         repeating: { type: 'boolean', description: 'Repeating (for create)' },
         limit: { type: 'number', description: 'Max records (default 50, max 200)' },
         page: { type: 'number', description: 'Page number' },
+        cursor: { type: 'string', description: 'next_cursor from a previous page (replaces the other arguments)' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -347,6 +624,7 @@ export const tandaTools: MCPTool[] = [
         },
         validate_only: { type: 'boolean', description: 'Only validate (for create_optimized)' },
         skip_conflicts: { type: 'boolean', description: 'Skip conflicts (for create_optimized)' },
+        ...RESPONSE_SHAPE_PROPERTIES,
       },
       required: ['action'],
     },
@@ -365,12 +643,77 @@ export function isToolAllowed(toolName: string, action?: string): boolean {
   return true;
 }
 
-// v4.0: Get filtered tools list based on read-only mode and lite mode
-export function getAvailableTools(): MCPTool[] {
-  if (config.MCP_LITE_MODE) {
-    return tandaTools.filter(tool => LITE_MODE_TOOLS.includes(tool.name));
+// OAuth scope required for a tool action
+export function getRequiredScope(toolName: string, action?: string): string {
+  const group = toolName.replace('tanda_', '');
+  return WRITE_ACTIONS.get(`${group}:${action}`)?.scope || `${group}:read`;
+}
+
+export function hasRequiredScope(toolName: string, action: string | undefined, scopes?: string[]): boolean {
+  return !scopes || scopes.includes(getRequiredScope(toolName, action));
+}
+
+// Minimum role for a tool action
+export function getRequiredRole(toolName: string, action?: string): UserRole {
+  return WRITE_ACTIONS.get(`${toolName.replace('tanda_', '')}:${action}`)?.role || 'employee';
+}
+
+export function hasRequiredRole(toolName: string, action: string | undefined, role?: UserRole): boolean {
+  return !role || hasRole(role, getRequiredRole(toolName, action));
+}
+
+// Restrict a tool's action enum to the given actions
+function withActions(tool: MCPTool, actions: string[]): MCPTool {
+  const actionSchema = tool.inputSchema.properties.action as Record<string, unknown>;
+  return {
+    ...tool,
+    inputSchema: {
+      ...tool.inputSchema,
+      properties: { ...tool.inputSchema.properties, action: { ...actionSchema, enum: actions } },
+    },
+  };
+}
+
+// Read-only and destructive hints from the actions a tool offers
+function withAnnotations(tool: MCPTool): MCPTool {
+  const group = tool.name.replace('tanda_', '');
+  const writes = ((tool.inputSchema.properties.action as { enum: string[] }).enum)
+    .filter(action => WRITE_ACTIONS.has(`${group}:${action}`));
+  return {
+    ...tool,
+    annotations: {
+      readOnlyHint: writes.length === 0,
+      destructiveHint: writes.some(action => DESTRUCTIVE_ACTIONS.includes(action)),
+    },
+  };
+}
+
+// v4.0: Get filtered tools list based on read-only mode and lite mode.
+// Actions outside the caller's scopes or role are dropped and tools left with none are hidden.
+// Clients on protocol 2025-03-26 or later also get annotations.
+export function getAvailableTools(context: ToolContext = {}): MCPTool[] {
+  const tools = filterTools(context);
+  return supportsFeature(context.protocolVersion, 'tool_annotations') ? tools.map(withAnnotations) : tools;
+}
+
+function filterTools(context: ToolContext): MCPTool[] {
+  const tools = (config.MCP_LITE_MODE
+    ? tandaTools.filter(tool => LITE_MODE_TOOLS.includes(tool.name))
+    : tandaTools).map(withRangeLimit);
+  if (!context.scopes && !context.role) {
+    return tools;
+  }
+
+  const available: MCPTool[] = [];
+  for (const tool of tools) {
+    const actions = ((tool.inputSchema.properties.action as { enum: string[] }).enum)
+      .filter(action => hasRequiredScope(tool.name, action, context.scopes) &&
+        hasRequiredRole(tool.name, action, context.role));
+    if (actions.length > 0) {
+      available.push(withActions(tool, actions));
+    }
   }
-  return tandaTools;
+  return available;
 }
 
 // ==================== Tool Execution Handler ====================
@@ -378,8 +721,26 @@ export function getAvailableTools(): MCPTool[] {
 export async function executeTool(
   client: TandaClient,
   toolName: string,
-  args: Record<string, unknown>
-): Promise<{ content: unknown; isError?: boolean }> {
+  args: Record<string, unknown>,
+  context: ToolContext = {}
+): Promise<{ content: unknown; isError?: boolean; meta?: ResponseMeta }> {
+  // A cursor stands in for the arguments of the query it was issued for
+  const cursor = args.cursor !== undefined ? decodeCursor(args.cursor, toolName) : undefined;
+  if (cursor === null) {
+    return {
+      content: { error: 'Invalid cursor. Repeat the original request without a cursor.' },
+      isError: true,
+    };
+  }
+  if (cursor) {
+    args = cursor.args;
+  }
+
+  const shape = parseShapeOptions(args);
+  if (!shape.valid) {
+    return { content: { error: shape.error }, isError: true };
+  }
+
   const action = args.action as string;
   logger.debug(`Executing tool: ${toolName}`, { action, args });
 
@@ -391,44 +752,62 @@ export async function executeTool(
     };
   }
 
-  try {
-    switch (toolName) {
-      case 'tanda_users':
-        return await executeUsersTool(client, action, args);
-
-      case 'tanda_schedules':
-        return await executeSchedulesTool(client, action, args);
-
-      case 'tanda_timesheets':
-        return await executeTimesheetsTool(client, action, args);
-
-      case 'tanda_leave':
-        return await executeLeaveTool(client, action, args);
-
-      case 'tanda_rosters':
-        return await executeRostersTool(client, action, args);
-
-      case 'tanda_reference':
-        return await executeReferenceTool(client, action, args);
+  // Check the token's OAuth scopes
+  if (!hasRequiredScope(toolName, action, context.scopes)) {
+    const scope = getRequiredScope(toolName, action);
+    return {
+      content: { error: `Action '${action}' requires the '${scope}' scope.`, requiredScope: scope },
+      isError: true,
+    };
+  }
 
-      case 'tanda_realtime':
-        return await executeRealtimeTool(client, action, args);
+  // Check the caller's role before the request reaches Tanda
+  if (!hasRequiredRole(toolName, action, context.role)) {
+    const role = getRequiredRole(toolName, action);
+    return {
+      content: {
+        error: `Action '${action}' on ${toolName} requires the ${role} role (current role: ${context.role}).`,
+        requiredRole: role,
+      },
+      isError: true,
+    };
+  }
 
-      case 'tanda_unavailability':
-        return await executeUnavailabilityTool(client, action, args);
+  // Cursor pages come from the snapshot while it lasts; after that the query is re-run
+  const query = {
+    toolName,
+    args: Object.fromEntries(Object.entries(args).filter(([key]) => !['cursor', 'page', 'limit'].includes(key))),
+    ownerId: context.sessionId,
+  };
+  if (cursor) {
+    const snapshot = resultSnapshots.get(cursor.snapshotId, toolName, context.sessionId);
+    if (snapshot) {
+      const page = buildPage(snapshot, cursor.offset, cursor.limit, { ...query, snapshotId: cursor.snapshotId });
+      return shapeResult({ content: page }, getEntityType(toolName, action), shape.options!);
+    }
+  }
 
-      case 'tanda_supervisors':
-        return await executeSupervisorsTool(client, action, args);
+  // Long ranges are fetched in windows when chunking is on
+  if (config.MCP_AUTO_CHUNK) {
+    client = withWindowedFetches(client);
+  }
 
-      default:
-        return { content: { error: `Unknown tool: ${toolName}` }, isError: true };
+  try {
+    const result = await runTool(client, toolName, action, args, context);
+    if (result.content instanceof ListResult) {
+      const list = result.content;
+      const limit = cursor ? cursor.limit : Math.min(Math.max(list.limit, 1), 200);
+      const offset = cursor ? cursor.offset : (Math.max(list.page, 1) - 1) * limit;
+      result.content = buildPage(list.data, offset, limit, query);
     }
+    return shapeResult(result, getEntityType(toolName, action), shape.options!);
   } catch (error) {
     logger.error(`Tool execution failed: ${toolName}`, error);
 
+    // Tanda errors say whether to re-authenticate, change arguments, or retry
     if (error instanceof TandaApiError) {
       return {
-        content: { error: error.message, statusCode: error.statusCode },
+        content: error.toToolError(),
         isError: true,
       };
     }
@@ -440,12 +819,54 @@ export async function executeTool(
   }
 }
 
+// Dispatch to the tool's executor
+async function runTool(
+  client: TandaClient,
+  toolName: string,
+  action: string,
+  args: Record<string, unknown>,
+  context: ToolContext
+): Promise<{ content: unknown; isError?: boolean }> {
+  switch (toolName) {
+    case 'tanda_users':
+      return await executeUsersTool(client, action, args, context.departmentIds);
+
+    case 'tanda_schedules':
+      return await executeSchedulesTool(client, action, args, context.departmentIds);
+
+    case 'tanda_timesheets':
+      return await executeTimesheetsTool(client, action, args, context.departmentIds, context.onProgress);
+
+    case 'tanda_leave':
+      return await executeLeaveTool(client, action, args, context.departmentIds);
+
+    case 'tanda_rosters':
+      return await executeRostersTool(client, action, args, context.departmentIds);
+
+    case 'tanda_reference':
+      return await executeReferenceTool(client, action, args, context.departmentIds);
+
+    case 'tanda_realtime':
+      return await executeRealtimeTool(client, action, args, context.onProgress);
+
+    case 'tanda_unavailability':
+      return await executeUnavailabilityTool(client, action, args);
+
+    case 'tanda_supervisors':
+      return await executeSupervisorsTool(client, action, args, context.departmentIds, context.onProgress);
+
+    default:
+      return { content: { error: `Unknown tool: ${toolName}` }, isError: true };
+  }
+}
+
 // ==================== Individual Tool Handlers ====================
 
 async function executeUsersTool(
   client: TandaClient,
   action: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  scope?: number[]
 ): Promise<{ content: unknown; isError?: boolean }> {
   const page = (args.page as number) || 1;
   const limit = (args.limit as number) || 50;
@@ -455,34 +876,56 @@ async function executeUsersTool(
       return { content: await client.getCurrentUser() };
 
     case 'list': {
-      const users = await client.getUsers({
+      let departmentIds = args.department_ids as number[] | undefined;
+      if (scope) {
+        departmentIds = scopeDepartmentIds(departmentIds, scope);
+        if (departmentIds.length === 0) return { content: paginateResults([], page, limit) };
+      }
+      let users = await client.getUsers({
         active: args.active as boolean | undefined,
-        department_ids: args.department_ids as number[] | undefined,
+        department_ids: departmentIds,
       });
+      if (scope) users = users.filter(user => isUserInScope(user, scope));
       return { content: paginateResults(users, page, limit) };
     }
 
-    case 'get':
+    case 'get': {
       if (!args.user_id) return { content: { error: 'user_id required' }, isError: true };
-      return { content: await client.getUser(args.user_id as number) };
+      const user = await client.getUser(args.user_id as number);
+      if (scope && !isUserInScope(user, scope)) return outsideScope(`User ${user.id}`);
+      return { content: user };
+    }
 
     case 'inactive': {
-      const users = await client.getInactiveUsers();
+      let users = await client.getInactiveUsers();
+      if (scope) users = users.filter(user => isUserInScope(user, scope));
       return { content: paginateResults(users, page, limit) };
     }
 
     case 'by_department':
       if (!args.department_id) return { content: { error: 'department_id required' }, isError: true };
+      if (scope && !scope.includes(args.department_id as number)) return outsideScope(`Department ${args.department_id}`);
       const staff = await client.getStaffByDepartment(args.department_id as number);
       return { content: paginateResults(staff, page, limit) };
 
-    case 'onboard':
+    case 'onboard': {
       if (!args.users) return { content: { error: 'users array required' }, isError: true };
-      return { content: await client.onboardUsers(args.users as any[]) };
+      const newUsers = args.users as any[];
+      if (scope) {
+        const unscoped = newUsers.find(user => !user.department_ids?.length ||
+          !(user.department_ids as number[]).every(id => scope.includes(id)));
+        if (unscoped) return outsideScope(`Onboarding ${unscoped.email} (department_ids must be managed departments)`);
+      }
+      return { content: await client.onboardUsers(newUsers) };
+    }
 
-    case 'invite':
+    case 'invite': {
       if (!args.user_id) return { content: { error: 'user_id required' }, isError: true };
+      if (scope && !isUserInScope(await client.getUser(args.user_id as number), scope)) {
+        return outsideScope(`User ${args.user_id}`);
+      }
       return { content: await client.inviteUser(args.user_id as number) };
+    }
 
     default:
       return { content: { error: `Unknown action: ${action}` }, isError: true };
@@ -492,33 +935,53 @@ async function executeUsersTool(
 async function executeSchedulesTool(
   client: TandaClient,
   action: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  scope?: number[]
 ): Promise<{ content: unknown; isError?: boolean }> {
   const page = (args.page as number) || 1;
   const limit = (args.limit as number) || 50;
 
+  // Schedules being changed must belong to a managed department
+  const checkExistingSchedule = async () => {
+    if (!scope) return null;
+    const schedule = await client.getSchedule(args.schedule_id as number);
+    return isDepartmentInScope(schedule.department_id, scope) ? null : outsideScope(`Schedule ${schedule.id}`);
+  };
+
   switch (action) {
     case 'list': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
-      const schedules = await client.getSchedules({
+      let departmentIds = args.department_ids as number[] | undefined;
+      if (scope) {
+        departmentIds = scopeDepartmentIds(departmentIds, scope);
+        if (departmentIds.length === 0) return { content: paginateResults([], page, limit) };
+      }
+      let schedules = await client.getSchedules({
         from: args.from as string,
         to: args.to as string,
         user_ids: args.user_ids as number[] | undefined,
-        department_ids: args.department_ids as number[] | undefined,
+        department_ids: departmentIds,
         show_costs: args.show_costs as boolean | undefined,
       });
+      if (scope) schedules = schedules.filter(schedule => isDepartmentInScope(schedule.department_id, scope));
       return { content: paginateResults(schedules, page, limit) };
     }
 
-    case 'get':
+    case 'get': {
       if (!args.schedule_id) return { content: { error: 'schedule_id required' }, isError: true };
-      return { content: await client.getSchedule(args.schedule_id as number) };
+      const schedule = await client.getSchedule(args.schedule_id as number);
+      if (scope && !isDepartmentInScope(schedule.department_id, scope)) return outsideScope(`Schedule ${schedule.id}`);
+      return { content: schedule };
+    }
 
     case 'create':
       if (!args.start || !args.finish) return { content: { error: 'start and finish required' }, isError: true };
+      if (scope && !isDepartmentInScope(args.department_id as number | undefined, scope)) {
+        return outsideScope(`Department ${args.department_id ?? '(none)'}`);
+      }
       return {
         content: await client.createSchedule({
           user_id: args.user_id as number | undefined,
@@ -529,8 +992,13 @@ async function executeSchedulesTool(
         }),
       };
 
-    case 'update':
+    case 'update': {
       if (!args.schedule_id) return { content: { error: 'schedule_id required' }, isError: true };
+      const denied = await checkExistingSchedule();
+      if (denied) return denied;
+      if (scope && args.department_id !== undefined && !scope.includes(args.department_id as number)) {
+        return outsideScope(`Department ${args.department_id}`);
+      }
       return {
         content: await client.updateSchedule(args.schedule_id as number, {
           user_id: args.user_id as number | undefined,
@@ -540,17 +1008,28 @@ async function executeSchedulesTool(
           notes: args.notes as string | undefined,
         }),
       };
+    }
 
-    case 'delete':
+    case 'delete': {
       if (!args.schedule_id) return { content: { error: 'schedule_id required' }, isError: true };
+      const denied = await checkExistingSchedule();
+      if (denied) return denied;
       await client.deleteSchedule(args.schedule_id as number);
       return { content: { success: true, message: 'Schedule deleted' } };
+    }
 
     case 'publish':
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
+      // Publishing isn't chunked, so it keeps Tanda's own limit
       const validation = validateDateRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
-      await client.publishSchedules(args.from as string, args.to as string, args.department_ids as number[] | undefined);
+      let publishDepartmentIds = args.department_ids as number[] | undefined;
+      if (scope) {
+        // Never publish the whole organisation on a scoped manager's behalf
+        publishDepartmentIds = scopeDepartmentIds(publishDepartmentIds, scope);
+        if (publishDepartmentIds.length === 0) return outsideScope('Publishing these departments');
+      }
+      await client.publishSchedules(args.from as string, args.to as string, publishDepartmentIds);
       return { content: { success: true, message: 'Schedules published' } };
 
     default:
@@ -561,7 +1040,9 @@ async function executeSchedulesTool(
 async function executeTimesheetsTool(
   client: TandaClient,
   action: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  scope?: number[],
+  onProgress?: ProgressCallback
 ): Promise<{ content: unknown; isError?: boolean }> {
   const page = (args.page as number) || 1;
   const limit = (args.limit as number) || 50;
@@ -569,43 +1050,73 @@ async function executeTimesheetsTool(
   switch (action) {
     case 'shifts': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
-      const shifts = await client.getShifts({
+      let userIds = args.user_ids as number[] | undefined;
+      if (scope) {
+        userIds = await scopeUserIds(client, userIds, scope);
+        if (userIds.length === 0) return { content: paginateResults([], page, limit) };
+      }
+      let shifts = await client.getShifts({
         from: args.from as string,
         to: args.to as string,
-        user_ids: args.user_ids as number[] | undefined,
+        user_ids: userIds,
       });
+      if (userIds && scope) shifts = shifts.filter(shift => userIds!.includes(shift.user_id));
       return { content: paginateResults(shifts, page, limit) };
     }
 
     case 'timesheets': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
-      const timesheets = await client.getTimesheets({
+      let userIds = args.user_ids as number[] | undefined;
+      if (scope) {
+        userIds = await scopeUserIds(client, userIds, scope);
+        if (userIds.length === 0) return { content: paginateResults([], page, limit) };
+      }
+      let timesheets = await client.getTimesheets({
         from: args.from as string,
         to: args.to as string,
-        user_ids: args.user_ids as number[] | undefined,
+        user_ids: userIds,
         approved: args.approved as boolean | undefined,
         include_costs: args.include_costs as boolean | undefined,
-      });
+      }, onProgress);
+      if (userIds && scope) timesheets = timesheets.filter(timesheet => userIds!.includes(timesheet.user_id));
       return { content: paginateResults(timesheets, page, limit) };
     }
 
-    case 'approve_shift':
+    case 'approve_shift': {
       if (!args.shift_id) return { content: { error: 'shift_id required' }, isError: true };
+      if (scope) {
+        const shift = await client.getShift(args.shift_id as number);
+        const denied = await checkUserScope(client, shift.user_id, scope);
+        if (denied) return denied;
+      }
       return { content: await client.approveShift(args.shift_id as number) };
+    }
 
-    case 'approve_timesheet':
+    case 'approve_timesheet': {
       if (!args.timesheet_id) return { content: { error: 'timesheet_id required' }, isError: true };
+      if (scope) {
+        const timesheet = await client.getTimesheet(args.timesheet_id as number);
+        const denied = await checkUserScope(client, timesheet.user_id, scope);
+        if (denied) return denied;
+      }
       return { content: await client.approveTimesheet(args.timesheet_id as number) };
+    }
 
-    case 'breaks':
+    case 'breaks': {
       if (!args.shift_id) return { content: { error: 'shift_id required' }, isError: true };
+      if (scope) {
+        const shift = await client.getShift(args.shift_id as number);
+        const denied = await checkUserScope(client, shift.user_id, scope);
+        if (denied) return denied;
+      }
       return { content: await client.getShiftBreaks(args.shift_id as number) };
+    }
 
     default:
       return { content: { error: `Unknown action: ${action}` }, isError: true };
@@ -615,11 +1126,25 @@ async function executeTimesheetsTool(
 async function executeLeaveTool(
   client: TandaClient,
   action: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  scope?: number[]
 ): Promise<{ content: unknown; isError?: boolean }> {
   const page = (args.page as number) || 1;
   const limit = (args.limit as number) || 50;
 
+  // Leave being changed must belong to staff in a managed department
+  const checkExistingLeave = async () => {
+    if (!scope) return null;
+    const leave = await client.getLeaveRequest(args.leave_id as number);
+    return checkUserScope(client, leave.user_id, scope);
+  };
+
+  // Actions taking a user_id are limited to staff in a managed department
+  if (scope && args.user_id && ['create', 'balances', 'types', 'calculate_hours'].includes(action)) {
+    const denied = await checkUserScope(client, args.user_id as number, scope);
+    if (denied) return denied;
+  }
+
   switch (action) {
     case 'list': {
       const today = new Date();
@@ -628,16 +1153,22 @@ async function executeLeaveTool(
       const to = (args.to as string) || today.toISOString().split('T')[0];
 
       if (args.from && args.to) {
-        const validation = validateDateRange(from, to);
+        const validation = validateFetchRange(from, to);
         if (!validation.valid) return { content: { error: validation.error }, isError: true };
       }
 
-      const requests = await client.getLeaveRequests({
+      let userIds = args.user_ids as number[] | undefined;
+      if (scope) {
+        userIds = await scopeUserIds(client, userIds, scope);
+        if (userIds.length === 0) return { content: paginateResults([], page, limit) };
+      }
+      let requests = await client.getLeaveRequests({
         from,
         to,
-        user_ids: args.user_ids as number[] | undefined,
+        user_ids: userIds,
         status: args.status as string | undefined,
       });
+      if (userIds && scope) requests = requests.filter(request => userIds!.includes(request.user_id));
       return { content: paginateResults(requests, page, limit) };
     }
 
@@ -657,18 +1188,27 @@ async function executeLeaveTool(
         }),
       };
 
-    case 'approve':
+    case 'approve': {
       if (!args.leave_id) return { content: { error: 'leave_id required' }, isError: true };
+      const denied = await checkExistingLeave();
+      if (denied) return denied;
       return { content: await client.approveLeaveRequest(args.leave_id as number) };
+    }
 
-    case 'decline':
+    case 'decline': {
       if (!args.leave_id) return { content: { error: 'leave_id required' }, isError: true };
+      const denied = await checkExistingLeave();
+      if (denied) return denied;
       return { content: await client.declineLeaveRequest(args.leave_id as number, args.reason as string | undefined) };
+    }
 
-    case 'delete':
+    case 'delete': {
       if (!args.leave_id) return { content: { error: 'leave_id required' }, isError: true };
+      const denied = await checkExistingLeave();
+      if (denied) return denied;
       await client.deleteLeaveRequest(args.leave_id as number);
       return { content: { success: true, message: 'Leave request deleted' } };
+    }
 
     case 'balances':
       if (!args.user_id) return { content: { error: 'user_id required' }, isError: true };
@@ -699,19 +1239,22 @@ async function executeLeaveTool(
 async function executeRostersTool(
   client: TandaClient,
   action: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  scope?: number[]
 ): Promise<{ content: unknown; isError?: boolean }> {
+  const scoped = (roster: TandaRoster | null) => (scope && roster ? scopeRoster(roster, scope) : roster);
+
   switch (action) {
     case 'get':
       if (!args.roster_id) return { content: { error: 'roster_id required' }, isError: true };
-      return { content: await client.getRoster(args.roster_id as number) };
+      return { content: scoped(await client.getRoster(args.roster_id as number)) };
 
     case 'current':
-      return { content: await client.getCurrentRoster(args.show_costs as boolean | undefined) };
+      return { content: scoped(await client.getCurrentRoster(args.show_costs as boolean | undefined)) };
 
     case 'by_date':
       if (!args.date) return { content: { error: 'date required' }, isError: true };
-      return { content: await client.getRosterByDate(args.date as string, args.show_costs as boolean | undefined) };
+      return { content: scoped(await client.getRosterByDate(args.date as string, args.show_costs as boolean | undefined)) };
 
     default:
       return { content: { error: `Unknown action: ${action}` }, isError: true };
@@ -721,7 +1264,8 @@ async function executeRostersTool(
 async function executeReferenceTool(
   client: TandaClient,
   action: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  scope?: number[]
 ): Promise<{ content: unknown; isError?: boolean }> {
   const page = (args.page as number) || 1;
   const limit = (args.limit as number) || 50;
@@ -744,14 +1288,21 @@ async function executeReferenceTool(
 
     case 'daily_stats': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
-      const stats = await client.getDailyStats({
+      let departmentIds = args.department_ids as number[] | undefined;
+      if (scope) {
+        departmentIds = scopeDepartmentIds(departmentIds, scope);
+        if (departmentIds.length === 0) return { content: paginateResults([], page, limit) };
+      }
+      let stats = await client.getDailyStats({
         from: args.from as string,
         to: args.to as string,
-        department_ids: args.department_ids as number[] | undefined,
+        department_ids: departmentIds,
       });
+      // Stats without a department can't be attributed, so scoped callers only get per-department rows
+      if (scope) stats = stats.filter(stat => isDepartmentInScope(stat.department_id, scope));
       return { content: paginateResults(stats, page, limit) };
     }
 
@@ -763,7 +1314,8 @@ async function executeReferenceTool(
 async function executeRealtimeTool(
   client: TandaClient,
   action: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  onProgress?: ProgressCallback
 ): Promise<{ content: unknown; isError?: boolean }> {
   const page = (args.page as number) || 1;
   const limit = (args.limit as number) || 50;
@@ -786,7 +1338,7 @@ async function executeRealtimeTool(
 
     case 'award_interpretation': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
       const awards = await client.getAwardInterpretation({
@@ -799,14 +1351,14 @@ async function executeRealtimeTool(
 
     case 'roster_costs': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
       const costs = await client.getRosterCosts({
         from: args.from as string,
         to: args.to as string,
         department_ids: args.department_ids as number[] | undefined,
-      });
+      }, onProgress);
       return { content: paginateResults(costs, page, limit) };
     }
 
@@ -826,7 +1378,7 @@ async function executeUnavailabilityTool(
   switch (action) {
     case 'list': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
       const unavail = await client.getUnavailability({
@@ -864,14 +1416,21 @@ async function executeUnavailabilityTool(
 async function executeSupervisorsTool(
   client: TandaClient,
   action: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  scope?: number[],
+  onProgress?: ProgressCallback
 ): Promise<{ content: unknown; isError?: boolean }> {
-  const optimizer = new SupervisorOptimizer(client);
+  // Scoped managers only analyse, and place supervisors in, their own departments
+  const optimizer = new SupervisorOptimizer(scope ? withDepartmentScope(client, scope) : client);
+  const checkScheduleScope = (schedules: Array<{ departmentId?: number }>) => {
+    const unscoped = scope && schedules.find(s => !isDepartmentInScope(s.departmentId, scope));
+    return unscoped ? outsideScope(`Department ${unscoped.departmentId ?? '(none)'}`) : null;
+  };
 
   switch (action) {
     case 'detect_overlaps': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
       return {
@@ -889,7 +1448,7 @@ async function executeSupervisorsTool(
 
     case 'recommendations': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
       const request: OptimizationRequest = {
@@ -903,7 +1462,7 @@ async function executeSupervisorsTool(
 
     case 'optimize': {
       if (!args.from || !args.to) return { content: { error: 'from and to dates required' }, isError: true };
-      const validation = validateDateRange(args.from as string, args.to as string);
+      const validation = validateFetchRange(args.from as string, args.to as string);
       if (!validation.valid) return { content: { error: validation.error }, isError: true };
 
       const request: OptimizationRequest = {
@@ -913,7 +1472,7 @@ async function executeSupervisorsTool(
         specificLocationIds: args.location_ids as number[] | undefined,
         specificSupervisorIds: args.supervisor_ids as number[] | undefined,
       };
-      return { content: await optimizer.optimize(request) };
+      return { content: await optimizer.optimize(request, onProgress) };
     }
 
     case 'validate': {
@@ -924,6 +1483,8 @@ async function executeSupervisorsTool(
         start: s.start,
         finish: s.finish,
       }));
+      const denied = checkScheduleScope(schedules);
+      if (denied) return denied;
       return { content: await optimizer.validateSchedules(schedules) };
     }
 
@@ -936,12 +1497,14 @@ async function executeSupervisorsTool(
         finish: s.finish,
         notes: s.notes,
       }));
+      const denied = checkScheduleScope(schedules);
+      if (denied) return denied;
       return {
         content: await optimizer.createBulkSchedules({
           schedules,
           validateOnly: args.validate_only as boolean | undefined,
           skipConflicts: args.skip_conflicts as boolean | undefined,
-        }),
+        }, onProgress),
       };
     }
 
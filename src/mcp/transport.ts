@@ -0,0 +1,291 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+
+// Streamable HTTP transport. `initialize` issues an Mcp-Session-Id; messages for the
+// session are routed to its GET /mcp stream as numbered SSE events, and the last few
+// are kept so a client reconnecting with Last-Event-ID gets what it missed.
+
+export const SESSION_HEADER = 'Mcp-Session-Id';
+
+interface StreamEvent {
+  id: number;
+  message: unknown;
+}
+
+export interface MCPSession {
+  id: string;
+  ownerId?: string;        // Auth session that owns it (claimed on first authenticated request)
+  protocolVersion?: string;  // Agreed on initialize
+  events: StreamEvent[];   // Recent events, oldest first, for Last-Event-ID replay
+  nextEventId: number;
+  lastDeliveredId: number;
+  stream?: Response;       // Open GET /mcp stream, if any
+  lastSeenAt: number;
+}
+
+const MAX_SESSIONS = 1000;
+const MAX_EVENT_HISTORY = 100;
+
+function formatEvent(event: StreamEvent): string {
+  return `id: ${event.id}\nevent: message\ndata: ${JSON.stringify(event.message)}\n\n`;
+}
+
+export class MCPSessionStore {
+  private sessions = new Map<string, MCPSession>();
+
+  constructor(private ttlMs: number, private maxSessions: number = MAX_SESSIONS) {}
+
+  // New session, or undefined when the store is full. initialize needs no
+  // authentication, so only unclaimed sessions without a stream are evicted to make
+  // room (oldest first) - anonymous clients can never push out a session in use.
+  create(ownerId?: string): MCPSession | undefined {
+    if (this.sessions.size >= this.maxSessions && !this.evictUnclaimed()) {
+      return undefined;
+    }
+    const session: MCPSession = {
+      id: crypto.randomUUID(),
+      ownerId,
+      events: [],
+      nextEventId: 1,
+      lastDeliveredId: 0,
+      lastSeenAt: Date.now(),
+    };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  // Session by ID, or undefined if it has expired or belongs to another caller.
+  // A session opened before authenticating is claimed by the first authenticated caller.
+  get(id: string, ownerId?: string): MCPSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session) return undefined;
+    if (this.isExpired(session, Date.now())) {
+      this.delete(id);
+      return undefined;
+    }
+    if (session.ownerId && session.ownerId !== ownerId) return undefined;
+    session.ownerId = session.ownerId || ownerId;
+    session.lastSeenAt = Date.now();
+    return session;
+  }
+
+  delete(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+    this.sessions.delete(id);
+    session.stream?.end();
+    return true;
+  }
+
+  // Route a message to the session's GET stream. Messages sent while no stream is
+  // open are delivered when one connects.
+  send(session: MCPSession, message: unknown): number {
+    const event = { id: session.nextEventId++, message };
+    session.events.push(event);
+    if (session.events.length > MAX_EVENT_HISTORY) {
+      session.events.shift();
+    }
+    this.deliver(session, event);
+    return event.id;
+  }
+
+  // Make this the session's stream (only one at a time, so messages are never sent
+  // twice) and replay events after lastEventId, or any not yet delivered
+  attachStream(session: MCPSession, stream: Response, lastEventId?: number): void {
+    if (session.stream && session.stream !== stream) {
+      session.stream.end();
+    }
+    session.stream = stream;
+    const after = lastEventId ?? session.lastDeliveredId;
+    for (const event of session.events) {
+      if (event.id > after) this.deliver(session, event);
+    }
+  }
+
+  detachStream(session: MCPSession, stream: Response): void {
+    if (session.stream === stream) {
+      session.stream = undefined;
+      session.lastSeenAt = Date.now();
+    }
+  }
+
+  purgeExpired(now: number = Date.now()): number {
+    let removed = 0;
+    for (const [id, session] of this.sessions) {
+      if (this.isExpired(session, now)) {
+        this.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  // Drop the oldest session nobody has claimed or streamed from (Map iterates in insertion order)
+  private evictUnclaimed(): boolean {
+    for (const [id, session] of this.sessions) {
+      if (!session.ownerId && !session.stream) {
+        return this.delete(id);
+      }
+    }
+    return false;
+  }
+
+  // Sessions with an open stream are still in use however long ago the last request was
+  private isExpired(session: MCPSession, now: number): boolean {
+    return !session.stream && now - session.lastSeenAt > this.ttlMs;
+  }
+
+  private deliver(session: MCPSession, event: StreamEvent): void {
+    const stream = session.stream;
+    if (!stream || stream.writableEnded || stream.destroyed) return;
+    try {
+      stream.write(formatEvent(event));
+      session.lastDeliveredId = Math.max(session.lastDeliveredId, event.id);
+    } catch (err) {
+      logger.warn('SSE write exception:', err instanceof Error ? err.message : 'Unknown error');
+      this.detachStream(session, stream);
+    }
+  }
+}
+
+function parseLastEventId(value: string | undefined): number | undefined {
+  const id = Number(value);
+  return value && Number.isInteger(id) && id >= 0 ? id : undefined;
+}
+
+// Express route handler for GET /mcp - the server-to-client SSE stream. With an
+// Mcp-Session-Id it carries that session's messages; without one it only keeps alive.
+export function createMCPStreamRouter() {
+  return (req: Request, res: Response): void => {
+    const sessionId = req.get(SESSION_HEADER);
+    const session = sessionId ? mcpSessions.get(sessionId, req.auth?.sessionId) : undefined;
+
+    if (sessionId && !session) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Unknown or expired MCP session. Send initialize to start a new one.',
+      });
+      return;
+    }
+
+    // Set comprehensive SSE headers for proxy compatibility
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('Keep-Alive', 'timeout=600'); // 10 minute timeout hint
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    // Disable any response compression that might buffer
+    res.setHeader('Content-Encoding', 'identity');
+    res.flushHeaders();
+
+    let connectionClosed = false;
+    let pingInterval: NodeJS.Timeout | null = null;
+
+    // Helper to safely write to the response
+    const safeWrite = (data: string): boolean => {
+      if (connectionClosed || res.writableEnded || res.destroyed) {
+        return false;
+      }
+      try {
+        res.write(data, (err) => {
+          if (err) {
+            logger.warn('SSE write error:', err.message);
+            cleanup();
+          }
+        });
+        return true;
+      } catch (err) {
+        logger.warn('SSE write exception:', err instanceof Error ? err.message : 'Unknown error');
+        cleanup();
+        return false;
+      }
+    };
+
+    // Cleanup function to clear interval and mark connection as closed
+    const cleanup = () => {
+      if (connectionClosed) return;
+      connectionClosed = true;
+      if (pingInterval) {
+        clearInterval(pingInterval);
+        pingInterval = null;
+      }
+      if (session) {
+        mcpSessions.detachStream(session, res);
+      }
+      logger.info('SSE client disconnected');
+    };
+
+    // Send initial connection event
+    if (!safeWrite(`event: open\ndata: {"status":"connected"}\n\n`)) {
+      return;
+    }
+
+    if (session) {
+      mcpSessions.attachStream(session, res, parseLastEventId(req.get('Last-Event-ID')));
+    }
+
+    // Keep connection alive with aggressive pings every 15 seconds
+    // This helps prevent proxy timeouts (Railway default is ~30s)
+    pingInterval = setInterval(() => {
+      if (!safeWrite(`: ping\n\n`)) {
+        cleanup();
+      }
+    }, 15000);
+
+    // Handle client disconnect
+    req.on('close', cleanup);
+    req.on('error', (err) => {
+      logger.warn('SSE request error:', err.message);
+      cleanup();
+    });
+
+    // Handle response errors
+    res.on('error', (err) => {
+      logger.warn('SSE response error:', err.message);
+      cleanup();
+    });
+
+    res.on('close', cleanup);
+
+    logger.info(session ? `SSE client connected to /mcp for session ${session.id}` : 'SSE client connected to /mcp');
+  };
+}
+
+// Express route handler for DELETE /mcp - ends a session and closes its stream
+export function createMCPSessionDeleteRouter() {
+  return (req: Request, res: Response): void => {
+    const sessionId = req.get(SESSION_HEADER);
+
+    if (!sessionId) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `${SESSION_HEADER} header is required`,
+      });
+      return;
+    }
+
+    if (!mcpSessions.get(sessionId, req.auth?.sessionId)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'Unknown or expired MCP session',
+      });
+      return;
+    }
+
+    mcpSessions.delete(sessionId);
+    res.status(204).end();
+  };
+}
+
+// Singleton instance
+export const mcpSessions = new MCPSessionStore(config.MCP_SESSION_TTL_SECONDS * 1000);
+
+// Cleanup interval (unref'd so it never keeps the process alive on its own)
+setInterval(() => mcpSessions.purgeExpired(), 60 * 1000).unref(); // Run every minute
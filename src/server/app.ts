@@ -6,9 +6,14 @@ import rateLimit from 'express-rate-limit';
 import { config } from '../config/environment';
 import { logger } from '../utils/logger';
 import { oauthManager } from '../auth/oauth';
-import { requireAuth, optionalAuth, errorHandler, extractBearerToken } from '../auth/middleware';
-import { createMCPRouter } from '../mcp/handler';
+import { SUPPORTED_SCOPES, parseScope } from '../auth/scopes';
+import { requireAuth, optionalAuth, requireRole, errorHandler, extractBearerToken } from '../auth/middleware';
+import { createMCPRouter, handleMCPParseError, isHandshakeBody } from '../mcp/handler';
+import { SESSION_HEADER, createMCPSessionDeleteRouter, createMCPStreamRouter } from '../mcp/transport';
+import { PROTOCOL_VERSION_HEADER } from '../mcp/protocol';
 import { exchangeCodeForToken, TandaClient } from '../tanda/client';
+import { tandaCache } from '../tanda/cache';
+import { endpointBreaker } from '../tanda/breaker';
 
 export function createApp(): Application {
   const app = express();
@@ -35,7 +40,8 @@ export function createApp(): Application {
       : config.CORS_ORIGINS.split(',').map((o) => o.trim()),
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Session-ID'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Session-ID', 'X-API-Key', SESSION_HEADER, 'Last-Event-ID', PROTOCOL_VERSION_HEADER],
+    exposedHeaders: [SESSION_HEADER],
   };
   app.use(cors(corsOptions));
 
@@ -44,6 +50,9 @@ export function createApp(): Application {
   app.use(express.urlencoded({ extended: true }));
   app.use(cookieParser());
 
+  // Malformed JSON sent to an MCP endpoint gets a JSON-RPC parse error
+  app.use(handleMCPParseError);
+
   // Global rate limiting
   const limiter = rateLimit({
     windowMs: config.RATE_LIMIT_WINDOW_MS,
@@ -73,6 +82,8 @@ export function createApp(): Application {
       status: 'healthy',
       timestamp: new Date().toISOString(),
       version: config.MCP_SERVER_VERSION,
+      // Tanda endpoints currently skipped in favour of their fallbacks (detail is on /stats)
+      tanda_open_circuits: endpointBreaker.getOpenCount(),
     });
   });
 
@@ -107,11 +118,9 @@ export function createApp(): Application {
   // POST / - Handle MCP requests at root (Claude sends here after SSE connection)
   // Authentication required except for 'initialize' (protocol handshake)
   app.post('/', optionalAuth, (req: Request, res: Response, next: NextFunction) => {
-    const method = req.body?.method;
-
-    // Allow 'initialize' without auth for protocol handshake
+    // Allow 'initialize' and notifications without auth for protocol handshake
     // All other methods require authentication to trigger OAuth flow
-    if (method !== 'initialize' && !req.auth?.tandaClient) {
+    if (!isHandshakeBody(req.body) && !req.auth?.tandaClient) {
       const baseUrl = `${req.protocol}://${req.get('host')}`;
       res.setHeader('WWW-Authenticate', `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`);
       res.status(401).json({
@@ -134,7 +143,7 @@ export function createApp(): Application {
       resource: baseUrl,
       authorization_servers: [baseUrl],
       bearer_methods_supported: ['header'],
-      scopes_supported: ['user', 'department', 'leave', 'roster', 'timesheet', 'cost'],
+      scopes_supported: SUPPORTED_SCOPES,
     });
   });
 
@@ -146,32 +155,45 @@ export function createApp(): Application {
       authorization_endpoint: `${baseUrl}/authorize`,
       token_endpoint: `${baseUrl}/token`,
       registration_endpoint: `${baseUrl}/oauth/register`,
+      revocation_endpoint: `${baseUrl}/revoke`,
+      revocation_endpoint_auth_methods_supported: ['none', 'client_secret_post'],
+      introspection_endpoint: `${baseUrl}/introspect`,
       response_types_supported: ['code'],
       grant_types_supported: ['authorization_code', 'refresh_token'],
       code_challenge_methods_supported: ['S256'],
       // Claude.ai requires client_secret_post support
       token_endpoint_auth_methods_supported: ['none', 'client_secret_post'],
-      scopes_supported: ['user', 'department', 'leave', 'roster', 'timesheet', 'cost'],
+      scopes_supported: SUPPORTED_SCOPES,
     });
   });
 
   // POST /oauth/register - Dynamic Client Registration (RFC 7591)
   // Required for Claude.ai MCP integration
   app.post('/oauth/register', (req: Request, res: Response) => {
-    const { redirect_uris, client_name, token_endpoint_auth_method } = req.body;
+    const result = oauthManager.registerClient(req.body);
 
-    // Generate a client_id for this registration
-    const clientId = `mcp-client-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    if (!result.success) {
+      logger.warn(`Rejected client registration: ${result.errorDescription}`);
+      res.status(result.error === 'temporarily_unavailable' ? 503 : 400).json({
+        error: result.error,
+        error_description: result.errorDescription,
+      });
+      return;
+    }
 
-    logger.info(`Dynamic client registration: ${client_name}, redirect_uris: ${JSON.stringify(redirect_uris)}`);
+    const client = result.client!;
+    logger.info(`Dynamic client registration: ${client.clientName}, redirect_uris: ${JSON.stringify(client.redirectUris)}`);
 
     // Return client credentials per RFC 7591
+    res.setHeader('Cache-Control', 'no-store');
     res.status(201).json({
-      client_id: clientId,
-      client_name: client_name || 'MCP Client',
-      redirect_uris: redirect_uris || [],
-      token_endpoint_auth_method: token_endpoint_auth_method || 'none',
-      grant_types: ['authorization_code'],
+      client_id: result.clientId,
+      client_id_issued_at: Math.floor(client.createdAt / 1000),
+      ...(result.clientSecret && { client_secret: result.clientSecret, client_secret_expires_at: 0 }),
+      client_name: client.clientName,
+      redirect_uris: client.redirectUris,
+      token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+      grant_types: client.grantTypes,
       response_types: ['code'],
     });
   });
@@ -179,16 +201,43 @@ export function createApp(): Application {
   // GET /authorize - Standard OAuth2 authorize endpoint (for Claude MCP)
   app.get('/authorize', (req: Request, res: Response) => {
     // Capture OAuth2 parameters from Claude
-    const clientRedirectUri = req.query.redirect_uri as string;
+    const clientId = req.query.client_id as string | undefined;
     const clientState = req.query.state as string;
     const codeChallenge = req.query.code_challenge as string;
 
+    // Never redirect to an unverified redirect_uri (RFC 6749 §4.1.2.1)
+    const client = oauthManager.validateAuthorizationRequest(clientId, req.query.redirect_uri as string | undefined);
+    if (!client.success) {
+      logger.warn(`Rejected authorize request for client ${clientId}: ${client.errorDescription}`);
+      res.status(400).json({
+        error: client.error,
+        error_description: client.errorDescription,
+      });
+      return;
+    }
+    const clientRedirectUri = client.redirectUri!;
+
+    // The redirect URI is verified, so scope errors go back to the client (RFC 6749 §4.1.2.1)
+    const scope = parseScope(req.query.scope);
+    if (!scope.valid) {
+      const errorUrl = new URL(clientRedirectUri);
+      errorUrl.searchParams.set('error', 'invalid_scope');
+      errorUrl.searchParams.set('error_description', `Unsupported scope: ${scope.invalid!.join(' ')}`);
+      if (clientState) {
+        errorUrl.searchParams.set('state', clientState);
+      }
+      res.redirect(errorUrl.toString());
+      return;
+    }
+
     // Create session with client OAuth parameters stored server-side
     // This avoids cookie issues with cross-site redirects
     const { sessionId, authUrl } = oauthManager.createAuthSession({
+      clientId,
       redirectUri: clientRedirectUri,
       state: clientState,
       codeChallenge: codeChallenge,
+      scopes: scope.scopes,
     });
 
     // Set session cookie (this is same-site, so should work)
@@ -199,34 +248,57 @@ export function createApp(): Application {
       maxAge: 24 * 60 * 60 * 1000, // 24 hours
     });
 
-    logger.info(`OAuth authorize initiated for redirect_uri: ${clientRedirectUri}, session: ${sessionId}`);
+    logger.info(`OAuth authorize initiated for client: ${clientId}, redirect_uri: ${clientRedirectUri}, session: ${sessionId}`);
     res.redirect(authUrl);
   });
 
   // POST /token - Standard OAuth2 token endpoint (for Claude MCP)
+  // Supports authorization_code (with PKCE) and refresh_token (with rotation)
   app.post('/token', async (req: Request, res: Response) => {
-    const { code, grant_type, code_verifier } = req.body;
-
-    if (grant_type !== 'authorization_code') {
-      res.status(400).json({
-        error: 'unsupported_grant_type',
-        error_description: 'Only authorization_code grant type is supported',
-      });
-      return;
+    const { code, grant_type, code_verifier, refresh_token, client_id, client_secret, redirect_uri } = req.body;
+
+    let result;
+    if (grant_type === 'authorization_code' || grant_type === 'refresh_token') {
+      const client = oauthManager.authenticateClient(client_id, client_secret, grant_type);
+      if (!client.success) {
+        res.status(client.error === 'invalid_client' ? 401 : 400).json({
+          error: client.error,
+          error_description: client.errorDescription,
+        });
+        return;
+      }
     }
 
-    if (!code) {
+    if (grant_type === 'authorization_code') {
+      if (!code) {
+        res.status(400).json({
+          error: 'invalid_request',
+          error_description: 'Authorization code is required',
+        });
+        return;
+      }
+
+      // Exchange our authorization code (not Tanda's) for a JWT
+      // Pass code_verifier for PKCE validation
+      result = oauthManager.exchangeAuthCode(code, code_verifier, { clientId: client_id, redirectUri: redirect_uri });
+    } else if (grant_type === 'refresh_token') {
+      if (!refresh_token) {
+        res.status(400).json({
+          error: 'invalid_request',
+          error_description: 'refresh_token is required',
+        });
+        return;
+      }
+
+      result = oauthManager.exchangeRefreshToken(refresh_token, client_id);
+    } else {
       res.status(400).json({
-        error: 'invalid_request',
-        error_description: 'Authorization code is required',
+        error: 'unsupported_grant_type',
+        error_description: 'Supported grant types: authorization_code, refresh_token',
       });
       return;
     }
 
-    // Exchange our authorization code (not Tanda's) for a JWT
-    // Pass code_verifier for PKCE validation
-    const result = oauthManager.exchangeAuthCode(code, code_verifier);
-
     if (!result.success) {
       res.status(400).json({
         error: 'invalid_grant',
@@ -236,13 +308,66 @@ export function createApp(): Application {
     }
 
     // Return OAuth2 standard token response
+    res.setHeader('Cache-Control', 'no-store');
     res.json({
       access_token: result.accessToken,
       token_type: 'Bearer',
-      expires_in: 86400, // 24 hours
+      expires_in: result.expiresIn,
+      refresh_token: result.refreshToken,
+      scope: result.scope,
     });
   });
 
+  // POST /revoke - Token revocation (RFC 7009)
+  // Accepts access tokens (JWTs, added to the jti denylist) and refresh tokens
+  app.post('/revoke', (req: Request, res: Response) => {
+    const { token, token_type_hint } = req.body;
+
+    if (!token) {
+      res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'token is required',
+      });
+      return;
+    }
+
+    // Per RFC 7009 the response is the same whether or not the token was valid
+    oauthManager.revokeToken(token, token_type_hint);
+    res.status(200).end();
+  });
+
+  // POST /introspect - Token introspection (RFC 7662)
+  // The caller authenticates with its own access token and may only introspect
+  // tokens belonging to the same user
+  app.post('/introspect', (req: Request, res: Response) => {
+    const bearer = extractBearerToken(req);
+    const caller = bearer ? oauthManager.verifyJWT(bearer) : null;
+    if (!caller) {
+      res.status(401).json({
+        error: 'invalid_client',
+        error_description: 'A valid bearer token is required to introspect tokens',
+      });
+      return;
+    }
+
+    const { token, token_type_hint } = req.body;
+    if (!token) {
+      res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'token is required',
+      });
+      return;
+    }
+
+    const result = oauthManager.introspectToken(token, token_type_hint);
+    res.setHeader('Cache-Control', 'no-store');
+    if (result.active && result.sub !== String(caller.userId)) {
+      res.json({ active: false });
+      return;
+    }
+    res.json(result);
+  });
+
   // GET /auth/login - Initiate OAuth flow
   app.get('/auth/login', (req: Request, res: Response) => {
     const { sessionId, authUrl } = oauthManager.createAuthSession();
@@ -458,6 +583,7 @@ export function createApp(): Application {
       userId: payload.userId,
       email: payload.email,
       sessionActive: !!session,
+      role: oauthManager.getSessionRole(payload.sessionId),
       user: session?.user ? {
         id: session.user.id,
         name: session.user.name,
@@ -495,7 +621,7 @@ export function createApp(): Application {
 
   // GET /mcp - SSE endpoint for server-to-client messages (required for remote MCP)
   // This endpoint REQUIRES authentication to trigger OAuth flow in Claude.ai
-  app.get('/mcp', optionalAuth, (req: Request, res: Response) => {
+  app.get('/mcp', optionalAuth, (req: Request, res: Response, next: NextFunction) => {
     // Check if user is authenticated - if not, return 401 to trigger OAuth flow
     if (!req.auth?.tandaClient) {
       const baseUrl = `${req.protocol}://${req.get('host')}`;
@@ -508,90 +634,18 @@ export function createApp(): Application {
       return;
     }
 
-    // Set comprehensive SSE headers for proxy compatibility
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache, no-store, must-revalidate');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('Keep-Alive', 'timeout=600'); // 10 minute timeout hint
-    res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
-    res.setHeader('X-Content-Type-Options', 'nosniff');
-    // Disable any response compression that might buffer
-    res.setHeader('Content-Encoding', 'identity');
-    res.flushHeaders();
-
-    let connectionClosed = false;
-    let pingInterval: NodeJS.Timeout | null = null;
-
-    // Helper to safely write to the response
-    const safeWrite = (data: string): boolean => {
-      if (connectionClosed || res.writableEnded || res.destroyed) {
-        return false;
-      }
-      try {
-        res.write(data, (err) => {
-          if (err) {
-            logger.warn('SSE write error:', err.message);
-            cleanup();
-          }
-        });
-        return true;
-      } catch (err) {
-        logger.warn('SSE write exception:', err instanceof Error ? err.message : 'Unknown error');
-        cleanup();
-        return false;
-      }
-    };
-
-    // Cleanup function to clear interval and mark connection as closed
-    const cleanup = () => {
-      if (connectionClosed) return;
-      connectionClosed = true;
-      if (pingInterval) {
-        clearInterval(pingInterval);
-        pingInterval = null;
-      }
-      logger.info('SSE client disconnected');
-    };
-
-    // Send initial connection event
-    if (!safeWrite(`event: open\ndata: {"status":"connected"}\n\n`)) {
-      return;
-    }
-
-    // Keep connection alive with aggressive pings every 15 seconds
-    // This helps prevent proxy timeouts (Railway default is ~30s)
-    pingInterval = setInterval(() => {
-      if (!safeWrite(`: ping\n\n`)) {
-        cleanup();
-      }
-    }, 15000);
-
-    // Handle client disconnect
-    req.on('close', cleanup);
-    req.on('error', (err) => {
-      logger.warn('SSE request error:', err.message);
-      cleanup();
-    });
-
-    // Handle response errors
-    res.on('error', (err) => {
-      logger.warn('SSE response error:', err.message);
-      cleanup();
-    });
-
-    res.on('close', cleanup);
+    next();
+  }, createMCPStreamRouter());
 
-    logger.info('SSE client connected to /mcp');
-  });
+  // DELETE /mcp - End an MCP session (Mcp-Session-Id header)
+  app.delete('/mcp', optionalAuth, createMCPSessionDeleteRouter());
 
   // POST /mcp - MCP protocol endpoint
   // Authentication required except for 'initialize' (protocol handshake)
   app.post('/mcp', optionalAuth, (req: Request, res: Response, next: NextFunction) => {
-    const method = req.body?.method;
-
-    // Allow 'initialize' without auth for protocol handshake
+    // Allow 'initialize' and notifications without auth for protocol handshake
     // All other methods require authentication to trigger OAuth flow
-    if (method !== 'initialize' && !req.auth?.tandaClient) {
+    if (!isHandshakeBody(req.body) && !req.auth?.tandaClient) {
       const baseUrl = `${req.protocol}://${req.get('host')}`;
       res.setHeader('WWW-Authenticate', `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`);
       res.status(401).json({
@@ -619,9 +673,91 @@ export function createApp(): Application {
     }
   });
 
+  // ==================== Admin Routes ====================
+
+  // POST /admin/api-keys - Issue an API key for a service account
+  // Body: { name, tanda_refresh_token, scope? } - the key is only returned once
+  app.post('/admin/api-keys', requireAuth, requireRole('admin'), async (req: Request, res: Response) => {
+    const { name, tanda_refresh_token, scope } = req.body;
+
+    if (!name || typeof name !== 'string' || !tanda_refresh_token || typeof tanda_refresh_token !== 'string') {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: 'name and tanda_refresh_token are required',
+      });
+      return;
+    }
+
+    const scopes = parseScope(scope);
+    if (!scopes.valid) {
+      res.status(400).json({
+        error: 'Bad Request',
+        message: `Unsupported scope: ${scopes.invalid!.join(' ')}`,
+      });
+      return;
+    }
+
+    const result = await oauthManager.createApiKey({
+      name,
+      tandaRefreshToken: tanda_refresh_token,
+      scopes: scopes.scopes,
+      createdBy: req.auth!.payload.userId,
+    });
+
+    if (!result.success) {
+      res.status(400).json({
+        error: 'API Key Creation Failed',
+        message: result.error,
+      });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(201).json({
+      id: result.keyId,
+      api_key: result.apiKey,
+      name,
+      scope: scopes.scopes.join(' '),
+      user: {
+        id: result.user?.id,
+        name: result.user?.name,
+        email: result.user?.email,
+      },
+    });
+  });
+
+  // GET /admin/api-keys - List API keys (never includes the keys themselves)
+  app.get('/admin/api-keys', requireAuth, requireRole('admin'), (req: Request, res: Response) => {
+    res.json({
+      api_keys: oauthManager.listApiKeys().map((key) => ({
+        id: key.id,
+        name: key.name,
+        scope: key.scopes.join(' '),
+        user_id: key.userId,
+        created_by: key.createdBy,
+        created_at: new Date(key.createdAt).toISOString(),
+        last_used_at: key.lastUsedAt ? new Date(key.lastUsedAt).toISOString() : null,
+      })),
+    });
+  });
+
+  // DELETE /admin/api-keys/:id - Revoke an API key
+  app.delete('/admin/api-keys/:id', requireAuth, requireRole('admin'), (req: Request, res: Response) => {
+    if (!oauthManager.revokeApiKey(req.params.id)) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'API key not found',
+      });
+      return;
+    }
+    res.status(204).end();
+  });
+
   // Monitoring endpoint
-  app.get('/stats', (req: Request, res: Response) => {
+  app.get('/stats', optionalAuth, (req: Request, res: Response) => {
     const stats = oauthManager.getStats();
+    // Circuits are keyed by organisation, so callers only see their own organisation's
+    const organisationId = req.auth && oauthManager.getSession(req.auth.sessionId)?.user?.organisation_id;
     res.json({
       server: {
         name: config.MCP_SERVER_NAME,
@@ -630,6 +766,8 @@ export function createApp(): Application {
         memory: process.memoryUsage(),
       },
       sessions: stats,
+      cache: tandaCache.getStats(),
+      ...(organisationId !== undefined && { tanda_circuits: endpointBreaker.getState(Date.now(), organisationId) }),
     });
   });
 
@@ -655,7 +793,8 @@ export function createApp(): Application {
           },
         },
         headers: {
-          Authorization: 'Bearer <jwt_token>',
+          Authorization: 'Bearer <jwt_token or api_key>',
+          'X-API-Key': '<api_key> (alternative for service accounts)',
         },
       },
       endpoints: {
@@ -665,10 +804,14 @@ export function createApp(): Application {
         '/auth/callback': { method: 'GET', description: 'OAuth callback', auth: false },
         '/auth/status': { method: 'GET', description: 'Check auth status', auth: false },
         '/auth/logout': { method: 'POST', description: 'Logout', auth: false },
+        '/revoke': { method: 'POST', description: 'Revoke an access or refresh token (RFC 7009)', auth: false },
+        '/introspect': { method: 'POST', description: 'Introspect a token (RFC 7662)', auth: true },
         '/api/authenticate': { method: 'POST', description: 'Exchange code for token', auth: false },
         '/api/me': { method: 'GET', description: 'Get current user', auth: true },
-        '/mcp': { method: 'POST', description: 'MCP protocol endpoint', auth: 'optional' },
-        '/stats': { method: 'GET', description: 'Server statistics', auth: false },
+        '/admin/api-keys': { method: 'GET, POST', description: 'List or issue service account API keys', auth: 'admin' },
+        '/admin/api-keys/:id': { method: 'DELETE', description: 'Revoke an API key', auth: 'admin' },
+        '/mcp': { method: 'GET, POST, DELETE', description: 'MCP Streamable HTTP endpoint (Mcp-Session-Id issued on initialize)', auth: 'optional' },
+        '/stats': { method: 'GET', description: 'Server statistics (plus your organisation\'s Tanda circuits when authenticated)', auth: false },
       },
       mcp: {
         description: 'MCP (Model Context Protocol) endpoint for AI integrations',
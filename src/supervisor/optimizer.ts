@@ -1,8 +1,10 @@
 // Supervisor Scheduling Optimization Engine
 
 import { TandaClient } from '../tanda/client';
-import { TandaSchedule, TandaUser, TandaDepartment, TandaLocation } from '../tanda/types';
+import { TandaSchedule, TandaUser, TandaDepartment, TandaLocation, TandaTime, ProgressCallback } from '../tanda/types';
 import { logger } from '../utils/logger';
+import { eachDate, formatZonedIso, getZonedParts, minutesOfDay, resolveTimeZone, toZonedDate, zonedTimeToInstant } from '../utils/dates';
+import { Timed, hasTimes } from '../tanda/normalise';
 import {
   TimeSlot,
   TIME_SLOTS,
@@ -28,13 +30,12 @@ export class SupervisorOptimizer {
   constructor(private client: TandaClient) {}
 
   /**
-   * Parse time string to minutes from midnight
+   * Parse time string to minutes from local midnight
    */
-  private parseTimeToMinutes(timeStr: string): number {
+  private parseTimeToMinutes(timeStr: string, timeZone: string): number {
     // Handle ISO 8601 datetime
     if (timeStr.includes('T')) {
-      const date = new Date(timeStr);
-      return date.getHours() * 60 + date.getMinutes();
+      return minutesOfDay(new Date(timeStr), timeZone);
     }
     // Handle HH:MM format
     const [hours, minutes] = timeStr.split(':').map(Number);
@@ -42,13 +43,10 @@ export class SupervisorOptimizer {
   }
 
   /**
-   * Parse schedule time to Date object
+   * Get the instant of a normalised schedule time
    */
-  private parseScheduleTime(time: string | number): Date {
-    if (typeof time === 'number') {
-      return new Date(time * 1000); // Unix timestamp
-    }
-    return new Date(time);
+  private parseScheduleTime(time: TandaTime): Date {
+    return new Date(time.epoch * 1000);
   }
 
   /**
@@ -70,35 +68,53 @@ export class SupervisorOptimizer {
   }
 
   /**
-   * Check if a time is within the evening slot (17:00 - 22:00)
+   * Check if a time is within the local evening slot (17:00 - 22:00)
    */
-  private isEveningTime(date: Date): boolean {
-    const hours = date.getHours();
-    return hours >= 17 && hours < 22;
+  private isEveningTime(date: Date, timeZone: string): boolean {
+    const { hour } = getZonedParts(date, timeZone);
+    return hour >= 17 && hour < 22;
   }
 
   /**
-   * Check if schedule covers evening hours
+   * Get the instants a time slot starts and finishes on a local date
    */
-  private coversEvening(schedule: TandaSchedule): boolean {
+  private getSlotWindow(date: string, slot: TimeSlot, timeZone: string): { start: Date; finish: Date } {
+    return {
+      start: zonedTimeToInstant(date, slot.start, timeZone),
+      finish: zonedTimeToInstant(date, slot.finish, timeZone),
+    };
+  }
+
+  /**
+   * Check if schedule covers evening hours on the local date it starts
+   */
+  private coversEvening(schedule: Timed<TandaSchedule>, timeZone: string): boolean {
     const start = this.parseScheduleTime(schedule.start);
     const finish = this.parseScheduleTime(schedule.finish);
 
     // Check if any part of the shift covers evening (17:00-22:00)
-    const eveningStart = new Date(start);
-    eveningStart.setHours(17, 0, 0, 0);
-    const eveningEnd = new Date(start);
-    eveningEnd.setHours(22, 0, 0, 0);
+    const evening = this.getSlotWindow(toZonedDate(start, timeZone), TIME_SLOTS.EVENING, timeZone);
 
-    return this.doPeriodsOverlap(start, finish, eveningStart, eveningEnd).overlaps;
+    return this.doPeriodsOverlap(start, finish, evening.start, evening.finish).overlaps;
   }
 
   /**
-   * Get date string from schedule
+   * Get the local date a schedule starts on
    */
-  private getScheduleDate(schedule: TandaSchedule): string {
-    const start = this.parseScheduleTime(schedule.start);
-    return start.toISOString().split('T')[0];
+  private getScheduleDate(schedule: Timed<TandaSchedule>, timeZone: string): string {
+    return toZonedDate(this.parseScheduleTime(schedule.start), timeZone);
+  }
+
+  /**
+   * Build a lookup from department to the time zone of its location
+   */
+  private buildTimeZoneLookup(
+    departments: TandaDepartment[],
+    locationLookup: Map<number, TandaLocation>
+  ): (departmentId?: number) => string {
+    const timeZones = new Map<number, string | undefined>();
+    departments.forEach(d => timeZones.set(d.id, d.location_id ? locationLookup.get(d.location_id)?.time_zone : undefined));
+    return (departmentId) => resolveTimeZone(departmentId ? timeZones.get(departmentId) : undefined);
   }
 
   /**
@@ -151,11 +167,13 @@ export class SupervisorOptimizer {
   ): Promise<ScheduleOverlap[]> {
     logger.info('Detecting schedule overlaps', { dateFrom, dateTo, supervisorIds });
 
-    const [schedules, users, departments] = await Promise.all([
+    const [allSchedules, users, departments] = await Promise.all([
       this.client.getSchedules({ from: dateFrom, to: dateTo }),
       this.client.getUsers({ active: true }),
       this.client.getDepartments(),
     ]);
+    // Schedules without both times can't overlap anything
+    const schedules = allSchedules.filter(hasTimes);
 
     // Build department lookup
     const deptLookup = new Map<number, TandaDepartment>();
@@ -169,7 +187,7 @@ export class SupervisorOptimizer {
     const supervisorIds_set = new Set(supervisors.map(s => s.id));
 
     // Group schedules by supervisor
-    const schedulesBySupervisor = new Map<number, TandaSchedule[]>();
+    const schedulesBySupervisor = new Map<number, Timed<TandaSchedule>[]>();
     schedules.forEach(schedule => {
       if (schedule.user_id && supervisorIds_set.has(schedule.user_id)) {
         const existing = schedulesBySupervisor.get(schedule.user_id) || [];
@@ -222,15 +240,15 @@ export class SupervisorOptimizer {
                 scheduleId: current.id,
                 locationName: deptLookup.get(current.department_id || 0)?.name || 'Unknown',
                 departmentId: current.department_id || 0,
-                start: currentStart.toISOString(),
-                finish: currentEnd.toISOString(),
+                start: current.start.iso,
+                finish: current.finish.iso,
               },
               {
                 scheduleId: next.id,
                 locationName: deptLookup.get(next.department_id || 0)?.name || 'Unknown',
                 departmentId: next.department_id || 0,
-                start: nextStart.toISOString(),
-                finish: nextEnd.toISOString(),
+                start: next.start.iso,
+                finish: next.finish.iso,
               },
             ],
             overlapPeriod: {
@@ -254,7 +272,7 @@ export class SupervisorOptimizer {
   async analyzeEveningCoverage(date: string): Promise<EveningCoverageAnalysis> {
     logger.info('Analyzing evening coverage', { date });
 
-    const [schedules, users, departments, locations] = await Promise.all([
+    const [allSchedules, users, departments, locations] = await Promise.all([
       this.client.getSchedules({ from: date, to: date }),
       this.client.getUsers({ active: true }),
       this.client.getDepartments(),
@@ -274,11 +292,12 @@ export class SupervisorOptimizer {
       return this.buildSchoolLocation(dept, location);
     });
 
-    // Filter evening schedules and group by department
-    const eveningSchedulesByDept = new Map<number, TandaSchedule[]>();
+    // Filter evening schedules (in each location's time zone) and group by department
+    const timeZoneOf = this.buildTimeZoneLookup(departments, locationLookup);
+    const eveningSchedulesByDept = new Map<number, Timed<TandaSchedule>[]>();
 
-    schedules.forEach(schedule => {
-      if (this.coversEvening(schedule) && schedule.department_id) {
+    allSchedules.filter(hasTimes).forEach(schedule => {
+      if (schedule.department_id && this.coversEvening(schedule, timeZoneOf(schedule.department_id))) {
         const existing = eveningSchedulesByDept.get(schedule.department_id) || [];
         existing.push(schedule);
         eveningSchedulesByDept.set(schedule.department_id, existing);
@@ -298,8 +317,8 @@ export class SupervisorOptimizer {
             id: s.user_id!,
             name: user?.name || 'Unknown',
             scheduleId: s.id,
-            start: this.parseScheduleTime(s.start).toISOString(),
-            finish: this.parseScheduleTime(s.finish).toISOString(),
+            start: s.start.iso,
+            finish: s.finish.iso,
           };
         });
 
@@ -345,17 +364,21 @@ export class SupervisorOptimizer {
 
     const { dateRange, targetTimeSlots, prioritizeEvening = true } = request;
 
-    const [users, departments, locations, schedules, unavailability] = await Promise.all([
+    const [users, departments, locations, allSchedules, allUnavailability] = await Promise.all([
       this.client.getUsers({ active: true }),
       this.client.getDepartments(),
       this.client.getLocations(),
       this.client.getSchedules({ from: dateRange.from, to: dateRange.to }),
       this.client.getUnavailability({ from: dateRange.from, to: dateRange.to }),
     ]);
+    // Schedules and unavailability without both times can't cover or block a slot
+    const schedules = allSchedules.filter(hasTimes);
+    const unavailability = allUnavailability.filter(hasTimes);
 
     // Build lookups
     const locationLookup = new Map<number, TandaLocation>();
     locations.forEach(l => locationLookup.set(l.id, l));
+    const timeZoneOf = this.buildTimeZoneLookup(departments, locationLookup);
 
     // Filter supervisors
     let supervisors = users.filter(u =>
@@ -372,7 +395,7 @@ export class SupervisorOptimizer {
       });
 
     // Get existing schedules by supervisor
-    const existingSchedulesBySupervisor = new Map<number, TandaSchedule[]>();
+    const existingSchedulesBySupervisor = new Map<number, Timed<TandaSchedule>[]>();
     schedules.forEach(schedule => {
       if (schedule.user_id) {
         const existing = existingSchedulesBySupervisor.get(schedule.user_id) || [];
@@ -398,21 +421,18 @@ export class SupervisorOptimizer {
     const recommendations: PlacementRecommendation[] = [];
 
     // Analyze each date in the range
-    const startDate = new Date(dateRange.from);
-    const endDate = new Date(dateRange.to);
-
-    for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-      const dateStr = d.toISOString().split('T')[0];
-
-      // Check coverage for each school on this date
+    for (const dateStr of eachDate(dateRange.from, dateRange.to)) {
+      // Check coverage for each school on this date, in the school's own time zone
       for (const school of schoolLocations) {
+        const timeZone = timeZoneOf(school.departmentId);
+        const slotWindow = this.getSlotWindow(dateStr, targetSlot, timeZone);
         const deptSchedules = schedules.filter(s =>
           s.department_id === school.departmentId &&
-          this.getScheduleDate(s) === dateStr
+          this.getScheduleDate(s, timeZone) === dateStr
         );
 
         // Check if evening is covered
-        const eveningCovered = deptSchedules.some(s => this.coversEvening(s));
+        const eveningCovered = deptSchedules.some(s => this.coversEvening(s, timeZone));
 
         if (prioritizeEvening && !eveningCovered) {
           // Find available supervisors for this slot
@@ -422,24 +442,17 @@ export class SupervisorOptimizer {
 
             // Check if supervisor is available during evening on this date
             const hasConflict = supSchedules.some(s => {
-              const schedDate = this.getScheduleDate(s);
-              if (schedDate !== dateStr) return false;
-
               const start = this.parseScheduleTime(s.start);
               const finish = this.parseScheduleTime(s.finish);
-              const eveningStart = new Date(`${dateStr}T${targetSlot.start}:00`);
-              const eveningEnd = new Date(`${dateStr}T${targetSlot.finish}:00`);
 
-              return this.doPeriodsOverlap(start, finish, eveningStart, eveningEnd).overlaps;
+              return this.doPeriodsOverlap(start, finish, slotWindow.start, slotWindow.finish).overlaps;
             });
 
             const isUnavailable = supUnavail.some(u => {
-              const uStart = new Date(u.start);
-              const uFinish = new Date(u.finish);
-              const eveningStart = new Date(`${dateStr}T${targetSlot.start}:00`);
-              const eveningEnd = new Date(`${dateStr}T${targetSlot.finish}:00`);
+              const uStart = this.parseScheduleTime(u.start);
+              const uFinish = this.parseScheduleTime(u.finish);
 
-              return this.doPeriodsOverlap(uStart, uFinish, eveningStart, eveningEnd).overlaps;
+              return this.doPeriodsOverlap(uStart, uFinish, slotWindow.start, slotWindow.finish).overlaps;
             });
 
             if (!hasConflict && !isUnavailable) {
@@ -452,8 +465,9 @@ export class SupervisorOptimizer {
                 location: school,
                 suggestedSchedule: {
                   date: dateStr,
-                  start: `${dateStr}T${targetSlot.start}:00`,
-                  finish: `${dateStr}T${targetSlot.finish}:00`,
+                  // With the location's offset, so the times mean the same wherever they are read
+                  start: formatZonedIso(slotWindow.start, timeZone),
+                  finish: formatZonedIso(slotWindow.finish, timeZone),
                 },
                 reasoning: managesSchool
                   ? `${supervisor.name} manages ${school.name} and is available during evening hours`
@@ -486,8 +500,9 @@ export class SupervisorOptimizer {
 
   /**
    * Run full optimization and generate optimized schedule
+   * (progress is reported as each day's evening coverage is analysed)
    */
-  async optimize(request: OptimizationRequest): Promise<OptimizationResult> {
+  async optimize(request: OptimizationRequest, onProgress?: ProgressCallback): Promise<OptimizationResult> {
     logger.info('Running supervisor scheduling optimization', { request });
 
     const warnings: string[] = [];
@@ -525,13 +540,12 @@ export class SupervisorOptimizer {
 
       // Analyze evening coverage for each date
       const eveningAnalyses: EveningCoverageAnalysis[] = [];
-      const startDate = new Date(request.dateRange.from);
-      const endDate = new Date(request.dateRange.to);
 
-      for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-        const dateStr = d.toISOString().split('T')[0];
+      const dates = eachDate(request.dateRange.from, request.dateRange.to);
+      for (const dateStr of dates) {
         const analysis = await this.analyzeEveningCoverage(dateStr);
         eveningAnalyses.push(analysis);
+        onProgress?.(eveningAnalyses.length, dates.length, `Analysed evening coverage for ${dateStr}`);
       }
 
       // Aggregate evening coverage
@@ -741,8 +755,9 @@ export class SupervisorOptimizer {
 
   /**
    * Create schedules in bulk with validation
+   * (progress is reported as each schedule is created, skipped or fails)
    */
-  async createBulkSchedules(request: BulkScheduleRequest): Promise<BulkScheduleResult> {
+  async createBulkSchedules(request: BulkScheduleRequest, onProgress?: ProgressCallback): Promise<BulkScheduleResult> {
     logger.info('Creating bulk schedules', { count: request.schedules.length });
 
     // Validate first
@@ -795,6 +810,9 @@ export class SupervisorOptimizer {
       });
     });
 
+    const reportProgress = (message: string) =>
+      onProgress?.(created.length + skipped.length + failed.length, request.schedules.length, message);
+
     for (const schedule of request.schedules) {
       const key = `${schedule.supervisorId}-${schedule.start}`;
 
@@ -804,6 +822,7 @@ export class SupervisorOptimizer {
           departmentId: schedule.departmentId,
           reason: 'Schedule conflicts with another assignment',
         });
+        reportProgress(`Skipped conflicting schedule for supervisor ${schedule.supervisorId}`);
         continue;
       }
 
@@ -823,12 +842,14 @@ export class SupervisorOptimizer {
           start: schedule.start,
           finish: schedule.finish,
         });
+        reportProgress(`Created schedule ${result.id} for supervisor ${schedule.supervisorId}`);
       } catch (error) {
         failed.push({
           supervisorId: schedule.supervisorId,
           departmentId: schedule.departmentId,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
+        reportProgress(`Failed to create schedule for supervisor ${schedule.supervisorId}`);
       }
     }
 
@@ -0,0 +1,89 @@
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+
+// Status meaning an endpoint isn't available to the organisation (missing feature),
+// as opposed to a transient failure. A 403 usually means one caller's OAuth scope is
+// missing, so it never trips the organisation-wide circuit.
+const UNAVAILABLE_STATUS = 404;
+
+interface OpenCircuit {
+  status: number;
+  openedAt: number;
+  retryAt: number;
+}
+
+export interface CircuitState {
+  organisation_id: number;
+  endpoint: string;
+  status: number;
+  opened_at: string;
+  retry_at: string;
+}
+
+// Remembers endpoint variants that returned 404 for an organisation, so
+// methods with fallbacks can skip straight to the variant that works. After the
+// cool-down the endpoint is tried again. Clients without an organisation are never tripped.
+export class EndpointBreaker {
+  private circuits = new Map<string, OpenCircuit>();
+
+  constructor(private cooldownMs: number) {}
+
+  isOpen(organisationId: number | undefined, endpoint: string, now: number = Date.now()): boolean {
+    if (organisationId === undefined) return false;
+    const key = `${organisationId}:${endpoint}`;
+    const circuit = this.circuits.get(key);
+    if (!circuit) return false;
+    if (now >= circuit.retryAt) {
+      this.circuits.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  // Returns the status the circuit was opened with, if it is open
+  getOpenStatus(organisationId: number | undefined, endpoint: string): number | undefined {
+    return this.isOpen(organisationId, endpoint) ? this.circuits.get(`${organisationId}:${endpoint}`)!.status : undefined;
+  }
+
+  recordFailure(organisationId: number | undefined, endpoint: string, status: number, now: number = Date.now()): void {
+    if (organisationId === undefined || status !== UNAVAILABLE_STATUS) return;
+    this.circuits.set(`${organisationId}:${endpoint}`, { status, openedAt: now, retryAt: now + this.cooldownMs });
+    logger.info(`Tanda endpoint ${endpoint} unavailable (${status}) for organisation ${organisationId}, skipping for ${this.cooldownMs}ms`);
+  }
+
+  recordSuccess(organisationId: number | undefined, endpoint: string): void {
+    if (organisationId === undefined) return;
+    this.circuits.delete(`${organisationId}:${endpoint}`);
+  }
+
+  // Open circuits, optionally for one organisation only
+  getState(now: number = Date.now(), organisationId?: number): CircuitState[] {
+    const state: CircuitState[] = [];
+    for (const [key, circuit] of this.circuits) {
+      if (now >= circuit.retryAt) continue;
+      const separator = key.indexOf(':');
+      const circuitOrganisationId = Number(key.slice(0, separator));
+      if (organisationId !== undefined && circuitOrganisationId !== organisationId) continue;
+      state.push({
+        organisation_id: circuitOrganisationId,
+        endpoint: key.slice(separator + 1),
+        status: circuit.status,
+        opened_at: new Date(circuit.openedAt).toISOString(),
+        retry_at: new Date(circuit.retryAt).toISOString(),
+      });
+    }
+    return state;
+  }
+
+  // Number of open circuits across all organisations (safe to show unauthenticated)
+  getOpenCount(now: number = Date.now()): number {
+    return this.getState(now).length;
+  }
+
+  reset(): void {
+    this.circuits.clear();
+  }
+}
+
+// Singleton instance, shared by every TandaClient
+export const endpointBreaker = new EndpointBreaker(config.TANDA_ENDPOINT_COOLDOWN_MS);
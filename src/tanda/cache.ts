@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { config } from '../config/environment';
+import { logger } from '../utils/logger';
+
+// Reference data cached per Tanda organisation. Teams are departments in Tanda,
+// so getTeams is served from the departments cache.
+export type CacheResource = 'departments' | 'locations' | 'users';
+
+const CACHE_RESOURCES: CacheResource[] = ['departments', 'locations', 'users'];
+
+// What /users returns depends on the caller's Tanda permissions (an employee sees fewer
+// users and fields than an admin), so users are also kept apart per access token
+const CALLER_SCOPED_RESOURCES: CacheResource[] = ['users'];
+
+interface CacheEntry {
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  hitRate: number | null;
+  byResource: Record<CacheResource, { hits: number; misses: number }>;
+}
+
+// TTL cache for Tanda responses, keyed by organisation + resource + endpoint/params
+// (+ access token for caller-scoped resources).
+// Pending fetches are cached too, so concurrent callers share one request.
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private counters = Object.fromEntries(
+    CACHE_RESOURCES.map((resource) => [resource, { hits: 0, misses: 0 }])
+  ) as Record<CacheResource, { hits: number; misses: number }>;
+
+  // TTLs in milliseconds; 0 disables caching for that resource
+  constructor(private ttls: Record<CacheResource, number>) {}
+
+  async getOrFetch<T>(
+    organisationId: number,
+    resource: CacheResource,
+    key: string,
+    fetch: () => Promise<T>,
+    accessToken?: string
+  ): Promise<T> {
+    const ttl = this.ttls[resource];
+    const callerScoped = CALLER_SCOPED_RESOURCES.includes(resource);
+    // A caller-scoped response is never shared without knowing whose it is
+    if (!ttl || (callerScoped && !accessToken)) {
+      return fetch();
+    }
+
+    const caller = callerScoped ? `${crypto.createHash('sha256').update(accessToken!).digest('hex')}:` : '';
+    const cacheKey = `${organisationId}:${resource}:${caller}${key}`;
+    const now = Date.now();
+    let entry = this.entries.get(cacheKey);
+
+    if (entry && entry.expiresAt > now) {
+      this.counters[resource].hits++;
+    } else {
+      this.counters[resource].misses++;
+      entry = { value: fetch(), expiresAt: now + ttl };
+      this.entries.set(cacheKey, entry);
+
+      // Never cache failures
+      const pending = entry;
+      pending.value.catch(() => {
+        if (this.entries.get(cacheKey) === pending) {
+          this.entries.delete(cacheKey);
+        }
+      });
+    }
+
+    // Callers get their own copy so they can't modify the cached response
+    return structuredClone((await entry.value) as T);
+  }
+
+  // Drop an organisation's cached responses for one resource (or all of them)
+  invalidate(organisationId: number, resource?: CacheResource): number {
+    const prefix = resource ? `${organisationId}:${resource}:` : `${organisationId}:`;
+    let removed = 0;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      logger.debug(`Invalidated ${removed} cached ${resource || 'Tanda'} responses for organisation: ${organisationId}`);
+    }
+    return removed;
+  }
+
+  purgeExpired(now: number = Date.now()): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    for (const resource of CACHE_RESOURCES) {
+      this.counters[resource] = { hits: 0, misses: 0 };
+    }
+  }
+
+  getStats(): CacheStats {
+    let hits = 0;
+    let misses = 0;
+    for (const resource of CACHE_RESOURCES) {
+      hits += this.counters[resource].hits;
+      misses += this.counters[resource].misses;
+    }
+    return {
+      entries: this.entries.size,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? hits / (hits + misses) : null,
+      byResource: structuredClone(this.counters),
+    };
+  }
+}
+
+// Singleton instance, shared by every TandaClient
+export const tandaCache = new ResponseCache({
+  departments: config.CACHE_TTL_DEPARTMENTS * 1000,
+  locations: config.CACHE_TTL_LOCATIONS * 1000,
+  users: config.CACHE_TTL_USERS * 1000,
+});
+
+// Cleanup interval (unref'd so it never keeps the process alive on its own)
+setInterval(() => tandaCache.purgeExpired(), 60 * 1000).unref(); // Run every minute
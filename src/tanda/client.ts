@@ -1,6 +1,25 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
 import { config } from '../config/environment';
 import { logger } from '../utils/logger';
+import { eachDate, resolveTimeZone } from '../utils/dates';
+import { CacheResource, tandaCache } from './cache';
+import { getRetryDelay } from './retry';
+import { getRequestLimiter } from './limiter';
+import { endpointBreaker } from './breaker';
+import { TandaApiError, TandaAuthExpiredError, createTandaApiError } from './errors';
+import {
+  RawRecord,
+  TimeZoneResolver,
+  hasRawTimes,
+  normaliseActiveShift,
+  normaliseSchedule,
+  normaliseShift,
+  normaliseShiftBreak,
+  normaliseTimesheet,
+  normaliseUnavailability,
+  timesheetsFromShifts,
+  toLocalDate,
+} from './normalise';
 import {
   TandaTokenResponse,
   TandaUser,
@@ -27,6 +46,7 @@ import {
   ScheduleFilter,
   TimesheetFilter,
   UserFilter,
+  ProgressCallback,
   // v3.0 New Types
   TandaActiveShift,
   TandaRoster,
@@ -40,33 +60,55 @@ import {
   TandaUserInviteResult,
 } from './types';
 
-export class TandaApiError extends Error {
-  constructor(
-    message: string,
-    public statusCode: number,
-    public originalError?: unknown
-  ) {
-    super(message);
-    this.name = 'TandaApiError';
-  }
+export {
+  TandaApiError,
+  TandaAuthExpiredError,
+  TandaMissingScopeError,
+  TandaNotFoundError,
+  TandaValidationError,
+  TandaRateLimitedError,
+  TandaUpstreamError,
+} from './errors';
+
+export interface TandaClientOptions {
+  // Called after the client refreshes its tokens so the owner can persist them.
+  // previousRefreshToken is the token that was spent, for compare-and-swap updates.
+  onTokenRefresh?: (tokens: TandaTokenResponse, previousRefreshToken: string) => void | Promise<void>;
+  // Tanda organisation the token belongs to. Reference data is only cached when set.
+  organisationId?: number;
 }
 
+// Refreshes keyed by the refresh token being spent. Tanda rotates refresh tokens,
+// so concurrent clients built from the same session must share a single refresh call.
+// Completed refreshes are kept briefly for clients that were built just before the
+// session was updated and would otherwise spend an already-rotated token.
+const refreshesByToken = new Map<string, Promise<TandaTokenResponse>>();
+const REFRESH_REUSE_WINDOW_MS = 30 * 1000; // 30 seconds
+
 export class TandaClient {
   private client: AxiosInstance;
   private accessToken: string;
   private refreshToken?: string;
   private tokenExpiresAt?: number;
+  private onTokenRefresh?: TandaClientOptions['onTokenRefresh'];
+  private organisationId?: number;
+  private timeZones?: Promise<TimeZoneResolver>;
 
-  constructor(accessToken: string, refreshToken?: string, expiresIn?: number) {
+  constructor(accessToken: string, refreshToken?: string, expiresIn?: number, options: TandaClientOptions = {}) {
     this.accessToken = accessToken;
     this.refreshToken = refreshToken;
+    this.onTokenRefresh = options.onTokenRefresh;
+    this.organisationId = options.organisationId;
     if (expiresIn) {
       this.tokenExpiresAt = Date.now() + expiresIn * 1000;
     }
 
+    // Every request (including retries) goes through the access token's rate limiter
+    const adapter = axios.getAdapter(axios.defaults.adapter);
     this.client = axios.create({
       baseURL: config.TANDA_API_BASE_URL,
       timeout: 30000,
+      adapter: (requestConfig) => getRequestLimiter(this.accessToken).schedule(() => adapter(requestConfig)),
       headers: {
         'Content-Type': 'application/json',
         'Accept': 'application/json',
@@ -90,7 +132,7 @@ export class TandaClient {
       }
     );
 
-    // Response interceptor - handle errors and token refresh
+    // Response interceptor - handle errors, token refresh and retries
     this.client.interceptors.response.use(
       (response) => {
         logger.debug(`Tanda API Response: ${response.status} ${response.config.url}`);
@@ -109,6 +151,23 @@ export class TandaClient {
             logger.error('Token refresh failed:', refreshError);
           }
         }
+
+        const retryDelay = getRetryDelay(error, {
+          maxRetries: config.TANDA_MAX_RETRIES,
+          baseDelayMs: config.TANDA_RETRY_BASE_DELAY_MS,
+          maxDelayMs: config.TANDA_RETRY_MAX_DELAY_MS,
+        });
+        if (retryDelay !== undefined && error.config) {
+          const originalRequest = error.config;
+          originalRequest.retryCount = (originalRequest.retryCount || 0) + 1;
+          logger.warn(
+            `Retrying Tanda API request in ${retryDelay}ms (attempt ${originalRequest.retryCount}): ` +
+            `${originalRequest.method?.toUpperCase()} ${originalRequest.url} - ${error.response?.status ?? error.code}`
+          );
+          await new Promise((resolve) => setTimeout(resolve, retryDelay));
+          return this.client(originalRequest);
+        }
+
         return this.handleApiError(error);
       }
     );
@@ -116,27 +175,49 @@ export class TandaClient {
 
   private async refreshAccessToken(): Promise<void> {
     if (!this.refreshToken) {
-      throw new TandaApiError('No refresh token available', 401);
+      throw new TandaAuthExpiredError('No refresh token available');
     }
 
-    const response = await axios.post<TandaTokenResponse>(config.TANDA_TOKEN_URL, {
-      grant_type: 'refresh_token',
-      client_id: config.TANDA_CLIENT_ID,
-      client_secret: config.TANDA_CLIENT_SECRET,
-      refresh_token: this.refreshToken,
-    });
+    const previousRefreshToken = this.refreshToken;
+    let refresh = refreshesByToken.get(previousRefreshToken);
+    if (!refresh) {
+      refresh = requestTokenRefresh(previousRefreshToken);
+      refreshesByToken.set(previousRefreshToken, refresh);
+      refresh.then(
+        () => setTimeout(() => refreshesByToken.delete(previousRefreshToken), REFRESH_REUSE_WINDOW_MS).unref(),
+        () => refreshesByToken.delete(previousRefreshToken)
+      );
+    } else {
+      logger.debug('Joining in-flight Tanda token refresh');
+    }
+
+    const tokens = await refresh;
+    this.accessToken = tokens.access_token;
+    this.refreshToken = tokens.refresh_token;
+    this.tokenExpiresAt = Date.now() + tokens.expires_in * 1000;
 
-    this.accessToken = response.data.access_token;
-    this.refreshToken = response.data.refresh_token;
-    this.tokenExpiresAt = Date.now() + response.data.expires_in * 1000;
-    logger.info('Tanda access token refreshed successfully');
+    if (this.onTokenRefresh) {
+      try {
+        await this.onTokenRefresh(tokens, previousRefreshToken);
+      } catch (error) {
+        logger.error('Token refresh callback failed:', error);
+      }
+    }
   }
 
   private handleApiError(error: AxiosError): never {
-    const statusCode = error.response?.status || 500;
     const message = this.extractErrorMessage(error);
-    logger.error(`Tanda API Error: ${statusCode} - ${message}`);
-    throw new TandaApiError(message, statusCode, error);
+    const apiError = createTandaApiError(
+      message,
+      error.response && {
+        status: error.response.status,
+        data: error.response.data,
+        headers: error.response.headers as Record<string, unknown>,
+      },
+      error
+    );
+    logger.error(`Tanda API Error: ${apiError.statusCode} ${apiError.code} - ${message}`);
+    throw apiError;
   }
 
   private extractErrorMessage(error: AxiosError): string {
@@ -145,10 +226,112 @@ export class TandaClient {
       if (typeof data.error === 'string') return data.error;
       if (typeof data.message === 'string') return data.message;
       if (Array.isArray(data.errors)) return data.errors.join(', ');
+      if (data.errors && typeof data.errors === 'object') {
+        return Object.entries(data.errors as Record<string, unknown>)
+          .map(([field, messages]) => `${field} ${Array.isArray(messages) ? messages.join(', ') : messages}`)
+          .join('; ');
+      }
     }
     return error.message || 'Unknown Tanda API error';
   }
 
+  // GET through the organisation's reference data cache (users are cached per caller)
+  private async cachedGet<T>(resource: CacheResource, url: string, params?: URLSearchParams): Promise<T> {
+    const fetch = async () => (await this.client.get<T>(url, { params })).data;
+    if (this.organisationId === undefined) {
+      return fetch();
+    }
+    const query = params?.toString();
+    return tandaCache.getOrFetch(this.organisationId, resource, query ? `${url}?${query}` : url, fetch, this.accessToken);
+  }
+
+  private invalidateCache(resource: CacheResource): void {
+    if (this.organisationId !== undefined) {
+      tandaCache.invalidate(this.organisationId, resource);
+    }
+  }
+
+  // GET an endpoint variant that may not exist for the organisation. While its
+  // circuit is open this throws straight away so the caller moves to its fallback.
+  private async guardedGet<T>(endpoint: string, url: string, params?: URLSearchParams): Promise<T> {
+    const openStatus = endpointBreaker.getOpenStatus(this.organisationId, endpoint);
+    if (openStatus !== undefined) {
+      throw createTandaApiError(`${endpoint} is unavailable (skipped after a ${openStatus})`, { status: openStatus });
+    }
+
+    try {
+      const response = await this.client.get<T>(url, { params });
+      endpointBreaker.recordSuccess(this.organisationId, endpoint);
+      return response.data;
+    } catch (error) {
+      if (error instanceof TandaApiError) {
+        endpointBreaker.recordFailure(this.organisationId, endpoint, error.statusCode);
+      }
+      throw error;
+    }
+  }
+
+  // Fetch each date in range in parallel (within the rate limits), skipping dates
+  // that fail. Per-day endpoints never trip the circuit breaker: a 404 for one date
+  // means there is no data for it, not that the endpoint is missing.
+  private async getEachDay<T>(
+    filter: DateRangeFilter,
+    fetchDay: (date: string) => Promise<T[]>,
+    onProgress?: ProgressCallback
+  ): Promise<T[]> {
+    const dates = eachDate(filter.from, filter.to);
+    let done = 0;
+    const days = await Promise.all(
+      dates.map(async (date) => {
+        try {
+          return await fetchDay(date);
+        } catch {
+          return [];
+        } finally {
+          onProgress?.(++done, dates.length, `Fetched ${date}`);
+        }
+      })
+    );
+    return days.flat();
+  }
+
+  // Time zone of each department's location, looked up once per client. Departments
+  // without one (or when locations can't be read) use the default.
+  private getDepartmentTimeZones(): Promise<TimeZoneResolver> {
+    this.timeZones ??= Promise.all([this.getDepartments(), this.getLocations()])
+      .then(([departments, locations]): TimeZoneResolver => {
+        const locationTimeZones = new Map(locations.map((location) => [location.id, location.time_zone]));
+        const timeZones = new Map(departments.map((department) =>
+          [department.id, department.location_id ? locationTimeZones.get(department.location_id) : undefined]
+        ));
+        return (departmentId) => resolveTimeZone(departmentId ? timeZones.get(departmentId) : undefined);
+      })
+      .catch((): TimeZoneResolver => {
+        logger.debug('Locations not available, using the default time zone');
+        return () => resolveTimeZone();
+      });
+    return this.timeZones;
+  }
+
+  // Normalise the times in records from Tanda. Location time zones are only
+  // looked up when there is something to normalise.
+  private async normaliseAll<T>(
+    records: RawRecord[],
+    normalise: (record: RawRecord, timeZoneOf: TimeZoneResolver) => T
+  ): Promise<T[]> {
+    if (!Array.isArray(records)) return [];
+    const timeZoneOf = records.some(hasRawTimes) ? await this.getDepartmentTimeZones() : () => resolveTimeZone();
+    return records.map((record) => normalise(record, timeZoneOf));
+  }
+
+  private async normaliseOne<T>(
+    record: RawRecord,
+    normalise: (record: RawRecord, timeZoneOf: TimeZoneResolver) => T
+  ): Promise<T> {
+    if (!record) return record;
+    return (await this.normaliseAll([record], normalise))[0];
+  }
+
   // Token info
   getTokenInfo(): { accessToken: string; expiresAt?: number } {
     return {
@@ -169,8 +352,7 @@ export class TandaClient {
     if (filter?.active !== undefined) params.append('active', String(filter.active));
     if (filter?.department_ids?.length) params.append('department_ids', filter.department_ids.join(','));
 
-    const response = await this.client.get<TandaUser[]>('/users', { params });
-    return response.data;
+    return this.cachedGet<TandaUser[]>('users', '/users', params);
   }
 
   async getUser(userId: number): Promise<TandaUser> {
@@ -180,14 +362,14 @@ export class TandaClient {
 
   async updateUser(userId: number, data: Partial<TandaUser>): Promise<TandaUser> {
     const response = await this.client.put<TandaUser>(`/users/${userId}`, data);
+    this.invalidateCache('users');
     return response.data;
   }
 
   // ==================== Departments ====================
 
   async getDepartments(): Promise<TandaDepartment[]> {
-    const response = await this.client.get<TandaDepartment[]>('/departments');
-    return response.data;
+    return this.cachedGet<TandaDepartment[]>('departments', '/departments');
   }
 
   async getDepartment(departmentId: number): Promise<TandaDepartment> {
@@ -198,8 +380,7 @@ export class TandaClient {
   // ==================== Locations ====================
 
   async getLocations(): Promise<TandaLocation[]> {
-    const response = await this.client.get<TandaLocation[]>('/locations');
-    return response.data;
+    return this.cachedGet<TandaLocation[]>('locations', '/locations');
   }
 
   async getLocation(locationId: number): Promise<TandaLocation> {
@@ -218,23 +399,23 @@ export class TandaClient {
     if (filter.department_ids?.length) params.append('department_ids', filter.department_ids.join(','));
     if (filter.show_costs) params.append('show_costs', 'true');
 
-    const response = await this.client.get<TandaSchedule[]>('/schedules', { params });
-    return response.data;
+    const response = await this.client.get<RawRecord[]>('/schedules', { params });
+    return this.normaliseAll(response.data, normaliseSchedule);
   }
 
   async getSchedule(scheduleId: number): Promise<TandaSchedule> {
-    const response = await this.client.get<TandaSchedule>(`/schedules/${scheduleId}`);
-    return response.data;
+    const response = await this.client.get<RawRecord>(`/schedules/${scheduleId}`);
+    return this.normaliseOne(response.data, normaliseSchedule);
   }
 
   async createSchedule(data: CreateScheduleRequest): Promise<TandaSchedule> {
-    const response = await this.client.post<TandaSchedule>('/schedules', data);
-    return response.data;
+    const response = await this.client.post<RawRecord>('/schedules', data);
+    return this.normaliseOne(response.data, normaliseSchedule);
   }
 
   async updateSchedule(scheduleId: number, data: UpdateScheduleRequest): Promise<TandaSchedule> {
-    const response = await this.client.put<TandaSchedule>(`/schedules/${scheduleId}`, data);
-    return response.data;
+    const response = await this.client.put<RawRecord>(`/schedules/${scheduleId}`, data);
+    return this.normaliseOne(response.data, normaliseSchedule);
   }
 
   async deleteSchedule(scheduleId: number): Promise<void> {
@@ -244,7 +425,7 @@ export class TandaClient {
   async publishSchedules(from: string, to: string, departmentIds?: number[]): Promise<void> {
     const data: Record<string, unknown> = { from, to };
     if (departmentIds?.length) data.department_ids = departmentIds;
-    await this.client.post('/schedules/publish', data);
+    await this.client.post('/schedules/publish', data, { idempotent: true });
   }
 
   // ==================== Shifts (Timesheets) ====================
@@ -256,23 +437,23 @@ export class TandaClient {
     });
     if (filter.user_ids?.length) params.append('user_ids', filter.user_ids.join(','));
 
-    const response = await this.client.get<TandaShift[]>('/shifts', { params });
-    return response.data;
+    const response = await this.client.get<RawRecord[]>('/shifts', { params });
+    return this.normaliseAll(response.data, normaliseShift);
   }
 
   async getShift(shiftId: number): Promise<TandaShift> {
-    const response = await this.client.get<TandaShift>(`/shifts/${shiftId}`);
-    return response.data;
+    const response = await this.client.get<RawRecord>(`/shifts/${shiftId}`);
+    return this.normaliseOne(response.data, normaliseShift);
   }
 
   async approveShift(shiftId: number): Promise<TandaShift> {
-    const response = await this.client.post<TandaShift>(`/shifts/${shiftId}/approve`);
-    return response.data;
+    const response = await this.client.post<RawRecord>(`/shifts/${shiftId}/approve`, undefined, { idempotent: true });
+    return this.normaliseOne(response.data, normaliseShift);
   }
 
   // ==================== Timesheets ====================
 
-  async getTimesheets(filter: TimesheetFilter): Promise<TandaTimesheet[]> {
+  async getTimesheets(filter: TimesheetFilter, onProgress?: ProgressCallback): Promise<TandaTimesheet[]> {
     // Tanda API: /timesheets/on/{date} for specific date, /timesheets/current for current period
     // We iterate through date range and aggregate results
     const params = new URLSearchParams();
@@ -282,32 +463,18 @@ export class TandaClient {
 
     try {
       // Try /timesheets/on/{date} endpoint for each date in range
-      const fromDate = new Date(filter.from);
-      const toDate = new Date(filter.to);
-      const allTimesheets: TandaTimesheet[] = [];
-
-      // Iterate through dates
-      const currentDate = new Date(fromDate);
-      while (currentDate <= toDate) {
-        const dateStr = currentDate.toISOString().split('T')[0];
-        try {
-          const response = await this.client.get<TandaTimesheet[]>(`/timesheets/on/${dateStr}`, { params });
-          if (Array.isArray(response.data)) {
-            allTimesheets.push(...response.data);
-          }
-        } catch {
-          // Skip dates with no data
-        }
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
+      const allTimesheets = await this.getEachDay(filter, async (dateStr) => {
+        const response = await this.client.get<RawRecord[]>(`/timesheets/on/${dateStr}`, { params });
+        return Array.isArray(response.data) ? response.data : [];
+      }, onProgress);
 
       if (allTimesheets.length > 0) {
-        return allTimesheets;
+        return this.normaliseAll(allTimesheets, normaliseTimesheet);
       }
 
       // Fallback: try /timesheets/current
-      const currentResponse = await this.client.get<TandaTimesheet[]>('/timesheets/current', { params });
-      return Array.isArray(currentResponse.data) ? currentResponse.data : [];
+      const current = await this.guardedGet<RawRecord[]>('/timesheets/current', '/timesheets/current', params);
+      return this.normaliseAll(current, normaliseTimesheet);
     } catch {
       // Final fallback to shifts endpoint
       logger.debug('Timesheets endpoint not available, using shifts');
@@ -316,19 +483,19 @@ export class TandaClient {
         to: filter.to,
       });
       if (filter.user_ids?.length) shiftParams.append('user_ids', filter.user_ids.join(','));
-      const response = await this.client.get<TandaTimesheet[]>('/shifts', { params: shiftParams });
-      return response.data;
+      const response = await this.client.get<RawRecord[]>('/shifts', { params: shiftParams });
+      return timesheetsFromShifts(await this.normaliseAll(response.data, normaliseShift));
     }
   }
 
   async getTimesheet(timesheetId: number): Promise<TandaTimesheet> {
-    const response = await this.client.get<TandaTimesheet>(`/timesheets/${timesheetId}`);
-    return response.data;
+    const response = await this.client.get<RawRecord>(`/timesheets/${timesheetId}`);
+    return this.normaliseOne(response.data, normaliseTimesheet);
   }
 
   async approveTimesheet(timesheetId: number): Promise<TandaTimesheet> {
-    const response = await this.client.post<TandaTimesheet>(`/timesheets/${timesheetId}/approve`);
-    return response.data;
+    const response = await this.client.post<RawRecord>(`/timesheets/${timesheetId}/approve`, undefined, { idempotent: true });
+    return this.normaliseOne(response.data, normaliseTimesheet);
   }
 
   // ==================== Leave ====================
@@ -355,12 +522,12 @@ export class TandaClient {
   }
 
   async approveLeaveRequest(leaveId: number): Promise<TandaLeaveRequest> {
-    const response = await this.client.post<TandaLeaveRequest>(`/leave/${leaveId}/approve`);
+    const response = await this.client.post<TandaLeaveRequest>(`/leave/${leaveId}/approve`, undefined, { idempotent: true });
     return response.data;
   }
 
   async declineLeaveRequest(leaveId: number, reason?: string): Promise<TandaLeaveRequest> {
-    const response = await this.client.post<TandaLeaveRequest>(`/leave/${leaveId}/decline`, { reason });
+    const response = await this.client.post<TandaLeaveRequest>(`/leave/${leaveId}/decline`, { reason }, { idempotent: true });
     return response.data;
   }
 
@@ -372,10 +539,12 @@ export class TandaClient {
     // Tanda API: GET /leave_balances?user_ids= (requires 'leave' scope)
     try {
       // Primary endpoint: /leave_balances with user_ids parameter (plural)
-      const response = await this.client.get<TandaLeaveBalance[]>('/leave_balances', {
-        params: { user_ids: userId.toString() },
-      });
-      return Array.isArray(response.data) ? response.data : [];
+      const balances = await this.guardedGet<TandaLeaveBalance[]>(
+        '/leave_balances',
+        '/leave_balances',
+        new URLSearchParams({ user_ids: userId.toString() })
+      );
+      return Array.isArray(balances) ? balances : [];
     } catch {
       try {
         // Alternative: Get leave requests and extract balance info
@@ -417,13 +586,13 @@ export class TandaClient {
     if (filter.user_ids?.length) params.append('user_ids', filter.user_ids.join(','));
 
     try {
-      const response = await this.client.get<TandaUnavailability[]>('/unavailabilities', { params });
-      return response.data;
+      const unavailability = await this.guardedGet<RawRecord[]>('/unavailabilities', '/unavailabilities', params);
+      return this.normaliseAll(unavailability, normaliseUnavailability);
     } catch {
       // Alternative endpoint name
       try {
-        const response = await this.client.get<TandaUnavailability[]>('/unavailability', { params });
-        return response.data;
+        const unavailability = await this.guardedGet<RawRecord[]>('/unavailability', '/unavailability', params);
+        return this.normaliseAll(unavailability, normaliseUnavailability);
       } catch {
         logger.warn('Unavailability endpoint not available');
         return [];
@@ -432,8 +601,8 @@ export class TandaClient {
   }
 
   async createUnavailability(data: CreateUnavailabilityRequest): Promise<TandaUnavailability> {
-    const response = await this.client.post<TandaUnavailability>('/unavailabilities', data);
-    return response.data;
+    const response = await this.client.post<RawRecord>('/unavailabilities', data);
+    return this.normaliseOne(response.data, normaliseUnavailability);
   }
 
   async deleteUnavailability(unavailabilityId: number): Promise<void> {
@@ -477,10 +646,7 @@ export class TandaClient {
 
   async getStaffByDepartment(departmentId: number): Promise<TandaUser[]> {
     // Get users filtered by department
-    const response = await this.client.get<TandaUser[]>('/users', {
-      params: { department_ids: departmentId.toString() },
-    });
-    return response.data;
+    return this.cachedGet<TandaUser[]>('users', '/users', new URLSearchParams({ department_ids: departmentId.toString() }));
   }
 
   // ==================== Daily Stats ====================
@@ -494,13 +660,11 @@ export class TandaClient {
 
     try {
       // Try stats endpoint first
-      const response = await this.client.get<TandaDailyStats[]>('/stats/daily', { params });
-      return response.data;
+      return await this.guardedGet<TandaDailyStats[]>('/stats/daily', '/stats/daily', params);
     } catch {
       try {
         // Alternative: reports endpoint
-        const response = await this.client.get<TandaDailyStats[]>('/reports/daily', { params });
-        return response.data;
+        return await this.guardedGet<TandaDailyStats[]>('/reports/daily', '/reports/daily', params);
       } catch {
         // Fall back to computing from schedules and shifts
         logger.debug('Daily stats endpoint not available, computing from schedules');
@@ -509,16 +673,13 @@ export class TandaClient {
           this.getShifts(filter),
         ]);
 
-        // Aggregate by date
+        // Aggregate by the local date at each schedule's location
         const statsByDate = new Map<string, TandaDailyStats>();
 
         for (const schedule of schedules) {
-          // Handle both Unix timestamps (number) and ISO strings
-          const startValue = schedule.start;
-          const startDate = typeof startValue === 'number'
-            ? new Date(startValue * 1000)
-            : new Date(startValue);
-          const date = startDate.toISOString().split('T')[0];
+          // Schedules without a start can't be placed on a day
+          if (!schedule.start) continue;
+          const date = toLocalDate(schedule.start);
 
           const existing = statsByDate.get(date) || {
             date,
@@ -527,12 +688,9 @@ export class TandaClient {
             headcount: 0,
           };
           // Calculate scheduled hours
-          const finishValue = schedule.finish;
-          const finish = typeof finishValue === 'number'
-            ? new Date(finishValue * 1000)
-            : new Date(finishValue);
-          const hours = (finish.getTime() - startDate.getTime()) / (1000 * 60 * 60);
-          existing.scheduled_hours += hours;
+          if (schedule.finish) {
+            existing.scheduled_hours += (schedule.finish.epoch - schedule.start.epoch) / (60 * 60);
+          }
           existing.headcount += 1;
           statsByDate.set(date, existing);
         }
@@ -545,10 +703,8 @@ export class TandaClient {
             actual_hours: 0,
             headcount: 0,
           };
-          if (shift.finish) {
-            const start = new Date(shift.start);
-            const finish = new Date(shift.finish);
-            const hours = (finish.getTime() - start.getTime()) / (1000 * 60 * 60);
+          if (shift.start && shift.finish) {
+            const hours = (shift.finish.epoch - shift.start.epoch) / (60 * 60);
             existing.actual_hours += hours;
           }
           statsByDate.set(date, existing);
@@ -573,11 +729,11 @@ export class TandaClient {
 
     try {
       // Get shifts with award interpretation data
-      const response = await this.client.get<TandaShift[]>('/shifts', { params });
+      const shifts = await this.guardedGet<TandaShift[]>('/shifts?show_award_interpretation', '/shifts', params);
 
       // Extract and format award interpretation data from shifts
       const interpretations: TandaAwardInterpretation[] = [];
-      for (const shift of response.data) {
+      for (const shift of shifts) {
         if (shift.award_interpretation) {
           interpretations.push({
             id: shift.id,
@@ -600,62 +756,38 @@ export class TandaClient {
 
   // ==================== Roster Costs ====================
 
-  async getRosterCosts(filter: DateRangeFilter & { department_ids?: number[] }): Promise<TandaRosterCost[]> {
+  async getRosterCosts(filter: DateRangeFilter & { department_ids?: number[] }, onProgress?: ProgressCallback): Promise<TandaRosterCost[]> {
     // Tanda API: Use /rosters/on/{date}?show_costs=true or /rosters/current?show_costs=true
     // Requires 'roster' and 'cost' scopes
     try {
-      // Try getting rosters with costs for date range
-      const fromDate = new Date(filter.from);
-      const toDate = new Date(filter.to);
-      const allCosts: TandaRosterCost[] = [];
-
-      // Iterate through dates to get roster costs
-      const currentDate = new Date(fromDate);
-      while (currentDate <= toDate) {
-        const dateStr = currentDate.toISOString().split('T')[0];
-        try {
-          const params = new URLSearchParams({ show_costs: 'true' });
-          if (filter.department_ids?.length) {
-            params.append('department_ids', filter.department_ids.join(','));
-          }
-          const response = await this.client.get<TandaRosterCost>(`/rosters/on/${dateStr}`, { params });
-          if (response.data) {
-            // Add date to the cost record
-            allCosts.push({
-              ...response.data,
-              date: dateStr,
-            });
-          }
-        } catch {
-          // Skip dates without roster data
-        }
-        currentDate.setDate(currentDate.getDate() + 1);
+      // Get roster costs for each date in range (in parallel, within the rate limits)
+      const params = new URLSearchParams({ show_costs: 'true' });
+      if (filter.department_ids?.length) {
+        params.append('department_ids', filter.department_ids.join(','));
       }
+      const allCosts = await this.getEachDay(filter, async (dateStr): Promise<TandaRosterCost[]> => {
+        const response = await this.client.get<TandaRosterCost>(`/rosters/on/${dateStr}`, { params });
+        // Add date to the cost record
+        return response.data ? [{ ...response.data, date: dateStr }] : [];
+      }, onProgress);
 
       if (allCosts.length > 0) {
         return allCosts;
       }
 
       // Fallback: Get schedules with show_costs=true and aggregate
-      const scheduleParams = new URLSearchParams({
+      const schedules = await this.getSchedules({
         from: filter.from,
         to: filter.to,
-        show_costs: 'true',
+        department_ids: filter.department_ids,
+        show_costs: true,
       });
-      if (filter.department_ids?.length) {
-        scheduleParams.append('department_ids', filter.department_ids.join(','));
-      }
-
-      const schedules = await this.client.get<TandaSchedule[]>('/schedules', { params: scheduleParams });
 
-      // Aggregate costs by date from schedules
+      // Aggregate costs by the local date at each schedule's location
       const costsByDate = new Map<string, { date: string; cost: number; schedules_count: number }>();
-      for (const schedule of schedules.data) {
-        const startValue = schedule.start;
-        const startDate = typeof startValue === 'number'
-          ? new Date(startValue * 1000)
-          : new Date(startValue);
-        const dateStr = startDate.toISOString().split('T')[0];
+      for (const schedule of schedules) {
+        if (!schedule.start) continue;
+        const dateStr = toLocalDate(schedule.start);
 
         const existing = costsByDate.get(dateStr) || {
           date: dateStr,
@@ -685,8 +817,8 @@ export class TandaClient {
   async getActiveShifts(): Promise<TandaActiveShift[]> {
     // GET /shifts/active - requires timesheet scope
     try {
-      const response = await this.client.get<TandaActiveShift[]>('/shifts/active');
-      return response.data;
+      const response = await this.client.get<RawRecord[]>('/shifts/active');
+      return await this.normaliseAll(response.data, normaliseActiveShift);
     } catch (error) {
       logger.warn('Active shifts endpoint not available:', error instanceof Error ? error.message : 'Unknown error');
       return [];
@@ -707,8 +839,8 @@ export class TandaClient {
   async getShiftBreaks(shiftId: number): Promise<TandaShiftBreak[]> {
     // GET /shifts/{id}/breaks - requires timesheet scope
     try {
-      const response = await this.client.get<TandaShiftBreak[]>(`/shifts/${shiftId}/breaks`);
-      return response.data;
+      const response = await this.client.get<RawRecord[]>(`/shifts/${shiftId}/breaks`);
+      return await this.normaliseAll(response.data, normaliseShiftBreak);
     } catch (error) {
       logger.warn(`Shift breaks not available for shift ${shiftId}:`, error instanceof Error ? error.message : 'Unknown error');
       return [];
@@ -782,6 +914,7 @@ export class TandaClient {
     // POST /users/onboarding - requires user scope
     try {
       const response = await this.client.post<TandaBulkOnboardingResult>('/users/onboarding', { users });
+      this.invalidateCache('users');
       return response.data;
     } catch (error) {
       logger.error('User onboarding failed:', error instanceof Error ? error.message : 'Unknown error');
@@ -839,6 +972,7 @@ export class TandaClient {
 }
 
 // OAuth Helper Functions
+
 export async function exchangeCodeForToken(code: string): Promise<TandaTokenResponse> {
   const response = await axios.post<TandaTokenResponse>(config.TANDA_TOKEN_URL, {
     grant_type: 'authorization_code',
@@ -852,6 +986,18 @@ export async function exchangeCodeForToken(code: string): Promise<TandaTokenResp
   return response.data;
 }
 
+export async function requestTokenRefresh(refreshToken: string): Promise<TandaTokenResponse> {
+  const response = await axios.post<TandaTokenResponse>(config.TANDA_TOKEN_URL, {
+    grant_type: 'refresh_token',
+    client_id: config.TANDA_CLIENT_ID,
+    client_secret: config.TANDA_CLIENT_SECRET,
+    refresh_token: refreshToken,
+  });
+
+  logger.info('Tanda access token refreshed successfully');
+  return response.data;
+}
+
 export function buildAuthorizationUrl(state: string, scope?: string): string {
   // Tanda requires the scope parameter - use provided scope or default to common scopes
   // Note: qualification and device scopes are not supported by Workforce.com OAuth
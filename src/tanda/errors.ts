@@ -0,0 +1,167 @@
+import { getServerRetryDelay } from './retry';
+
+// Tanda API errors, classified so MCP clients know whether to re-authenticate,
+// change their arguments, or retry
+
+export type TandaErrorCode =
+  | 'auth_expired'
+  | 'missing_scope'
+  | 'not_found'
+  | 'validation_failed'
+  | 'rate_limited'
+  | 'upstream_unavailable'
+  | 'tanda_error';
+
+// Payload returned by executeTool for a failed Tanda request
+export interface ToolErrorPayload {
+  code: TandaErrorCode;
+  message: string;
+  hint: string;
+  retryable: boolean;
+  statusCode: number;
+  fieldErrors?: Record<string, string[]>;
+  retryAfterSeconds?: number;
+}
+
+export class TandaApiError extends Error {
+  code: TandaErrorCode = 'tanda_error';
+  hint = 'The Tanda API rejected the request. Check the arguments against the tool description.';
+  retryable = false;
+
+  constructor(
+    message: string,
+    public statusCode: number,
+    public originalError?: unknown
+  ) {
+    super(message);
+    this.name = 'TandaApiError';
+  }
+
+  toToolError(): ToolErrorPayload {
+    return {
+      code: this.code,
+      message: this.message,
+      hint: this.hint,
+      retryable: this.retryable,
+      statusCode: this.statusCode,
+    };
+  }
+}
+
+export class TandaAuthExpiredError extends TandaApiError {
+  code = 'auth_expired' as const;
+  hint = 'The Tanda session has expired or been revoked. Re-authenticate and try again.';
+
+  constructor(message: string, originalError?: unknown) {
+    super(message, 401, originalError);
+    this.name = 'TandaAuthExpiredError';
+  }
+}
+
+export class TandaMissingScopeError extends TandaApiError {
+  code = 'missing_scope' as const;
+  hint = 'The Tanda account or token is not permitted to do this. Do not retry; ask an administrator for access.';
+
+  constructor(message: string, originalError?: unknown) {
+    super(message, 403, originalError);
+    this.name = 'TandaMissingScopeError';
+  }
+}
+
+export class TandaNotFoundError extends TandaApiError {
+  code = 'not_found' as const;
+  hint = 'Check the ID is correct, e.g. by listing the resource first.';
+
+  constructor(message: string, originalError?: unknown) {
+    super(message, 404, originalError);
+    this.name = 'TandaNotFoundError';
+  }
+}
+
+export class TandaValidationError extends TandaApiError {
+  code = 'validation_failed' as const;
+  hint = 'Fix the arguments listed in fieldErrors and try again.';
+
+  constructor(
+    message: string,
+    statusCode: number,
+    public fieldErrors: Record<string, string[]> = {},
+    originalError?: unknown
+  ) {
+    super(message, statusCode, originalError);
+    this.name = 'TandaValidationError';
+  }
+
+  toToolError(): ToolErrorPayload {
+    return { ...super.toToolError(), fieldErrors: this.fieldErrors };
+  }
+}
+
+export class TandaRateLimitedError extends TandaApiError {
+  code = 'rate_limited' as const;
+  hint = 'Tanda is rate limiting requests. Wait before retrying, and prefer fewer, narrower queries.';
+  retryable = true;
+
+  constructor(message: string, public retryAfterMs?: number, originalError?: unknown) {
+    super(message, 429, originalError);
+    this.name = 'TandaRateLimitedError';
+  }
+
+  toToolError(): ToolErrorPayload {
+    const payload = super.toToolError();
+    if (this.retryAfterMs !== undefined) {
+      payload.retryAfterSeconds = Math.ceil(this.retryAfterMs / 1000);
+    }
+    return payload;
+  }
+}
+
+export class TandaUpstreamError extends TandaApiError {
+  code = 'upstream_unavailable' as const;
+  hint = 'Tanda is unavailable or timed out. Retry in a little while.';
+  retryable = true;
+
+  constructor(message: string, statusCode: number, originalError?: unknown) {
+    super(message, statusCode, originalError);
+    this.name = 'TandaUpstreamError';
+  }
+}
+
+// Field errors from a Tanda error body: { errors: { field: [messages] } }
+function extractFieldErrors(data: unknown): Record<string, string[]> {
+  const errors = (data as Record<string, unknown> | undefined)?.errors;
+  if (!errors || typeof errors !== 'object' || Array.isArray(errors)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(errors as Record<string, unknown>).map(([field, messages]) => [
+      field,
+      Array.isArray(messages) ? messages.map(String) : [String(messages)],
+    ])
+  );
+}
+
+// Build the error matching a failed Tanda response. A missing response (network
+// error or timeout) counts as upstream down.
+export function createTandaApiError(
+  message: string,
+  response: { status: number; data?: unknown; headers?: Record<string, unknown> } | undefined,
+  originalError?: unknown
+): TandaApiError {
+  if (!response) {
+    return new TandaUpstreamError(message, 503, originalError);
+  }
+
+  const { status } = response;
+  if (status === 401) return new TandaAuthExpiredError(message, originalError);
+  if (status === 403) return new TandaMissingScopeError(message, originalError);
+  if (status === 404) return new TandaNotFoundError(message, originalError);
+  if (status === 400 || status === 422) {
+    return new TandaValidationError(message, status, extractFieldErrors(response.data), originalError);
+  }
+  if (status === 429) {
+    return new TandaRateLimitedError(message, getServerRetryDelay(response.headers), originalError);
+  }
+  if (status >= 500) return new TandaUpstreamError(message, status, originalError);
+  return new TandaApiError(message, status, originalError);
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+import { config } from '../config/environment';
+
+// Token bucket: allows bursts up to capacity, then refills at a steady rate.
+// Waiters are served in order.
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private waiting: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  acquire(): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiting.push(resolve);
+      this.drain();
+    });
+  }
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillPerSecond);
+    this.updatedAt = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.waiting.length > 0 && this.tokens >= 1) {
+      this.tokens--;
+      this.waiting.shift()!();
+    }
+
+    if (this.waiting.length > 0 && !this.timer) {
+      const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, waitMs);
+    }
+  }
+}
+
+// Runs at most `limit` tasks at once; the rest queue in order
+export class ConcurrencyPool {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  get running(): number {
+    return this.active;
+  }
+
+  get pending(): number {
+    return this.waiting.length;
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    // The releasing task hands its slot straight to us
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+// Every request for an access token takes a pool slot, then a token from the bucket
+export class RequestLimiter {
+  private bucket: TokenBucket;
+  private pool: ConcurrencyPool;
+  lastUsedAt = Date.now();
+
+  constructor(options: { requestsPerMinute: number; burst: number; maxConcurrent: number }) {
+    this.bucket = new TokenBucket(options.burst, options.requestsPerMinute / 60);
+    this.pool = new ConcurrencyPool(options.maxConcurrent);
+  }
+
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    this.lastUsedAt = Date.now();
+    return this.pool.run(async () => {
+      await this.bucket.acquire();
+      return task();
+    });
+  }
+
+  get idle(): boolean {
+    return this.pool.running === 0 && this.pool.pending === 0;
+  }
+}
+
+// Limiters keyed by a hash of the access token, so every TandaClient built from
+// the same token shares one quota
+const limitersByToken = new Map<string, RequestLimiter>();
+const LIMITER_IDLE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export function getRequestLimiter(accessToken: string): RequestLimiter {
+  const key = crypto.createHash('sha256').update(accessToken).digest('hex');
+  let limiter = limitersByToken.get(key);
+  if (!limiter) {
+    limiter = new RequestLimiter({
+      requestsPerMinute: config.TANDA_REQUESTS_PER_MINUTE,
+      burst: config.TANDA_REQUEST_BURST,
+      maxConcurrent: config.TANDA_MAX_CONCURRENT_REQUESTS,
+    });
+    limitersByToken.set(key, limiter);
+  }
+  return limiter;
+}
+
+export function purgeIdleLimiters(now: number = Date.now()): number {
+  let removed = 0;
+  for (const [key, limiter] of limitersByToken) {
+    if (limiter.idle && now - limiter.lastUsedAt > LIMITER_IDLE_TTL_MS) {
+      limitersByToken.delete(key);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+// Cleanup interval (unref'd so it never keeps the process alive on its own)
+setInterval(() => purgeIdleLimiters(), 60 * 1000).unref(); // Run every minute
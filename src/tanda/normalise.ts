@@ -0,0 +1,139 @@
+import { formatZonedIso, parseTandaTime } from '../utils/dates';
+import {
+  TandaActiveShift,
+  TandaBreak,
+  TandaSchedule,
+  TandaShift,
+  TandaShiftBreak,
+  TandaTime,
+  TandaTimesheet,
+  TandaUnavailability,
+} from './types';
+
+// Tanda sends schedule, shift, break and unavailability times as ISO strings or Unix
+// timestamps. TandaClient converts them to TandaTime as responses arrive, in the time
+// zone of the record's department location, so nothing past the client sees raw times.
+
+// A record as Tanda sends it, before its times are normalised
+export type RawRecord = Record<string, unknown>;
+
+// Time zone of a department's location (the default time zone when unknown)
+export type TimeZoneResolver = (departmentId?: number) => string;
+
+// Fields of a raw record, read as the type the normalisers need (undefined otherwise)
+function rawNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function rawRecords(value: unknown): RawRecord[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is RawRecord => typeof item === 'object' && item !== null)
+    : undefined;
+}
+
+// A time as Tanda sends it (ISO string or Unix timestamp); anything else is no time
+export function normaliseTime(value: unknown, timeZone: string): TandaTime | undefined {
+  if ((typeof value !== 'string' && typeof value !== 'number') || value === '') return undefined;
+  const instant = parseTandaTime(value);
+  if (Number.isNaN(instant.getTime())) return undefined;
+  return { epoch: Math.floor(instant.getTime() / 1000), iso: formatZonedIso(instant, timeZone) };
+}
+
+// Whether a record has any times to normalise (timesheets carry theirs in shifts)
+export function hasRawTimes(raw: RawRecord): boolean {
+  return ['start', 'finish', 'break_start'].some((key) => raw[key] !== undefined && raw[key] !== null) ||
+    (rawRecords(raw.shifts)?.some(hasRawTimes) ?? false);
+}
+
+// A record with both of its times
+export type Timed<T> = T & { start: TandaTime; finish: TandaTime };
+
+// Whether a record has both times. Tanda can send records without them, or with times
+// that can't be read, and those can't be placed on a timeline.
+export function hasTimes<T extends { start?: TandaTime; finish?: TandaTime }>(record: T): record is Timed<T> {
+  return record.start !== undefined && record.finish !== undefined;
+}
+
+// Local calendar date (YYYY-MM-DD) of a normalised time
+export function toLocalDate(time: TandaTime): string {
+  return time.iso.slice(0, 10);
+}
+
+function normaliseBreak(raw: RawRecord, timeZone: string): TandaBreak {
+  return { ...raw, start: normaliseTime(raw.start, timeZone), finish: normaliseTime(raw.finish, timeZone) };
+}
+
+function normaliseBreaks(raw: unknown, timeZone: string): TandaBreak[] | undefined {
+  return rawRecords(raw)?.map((b) => normaliseBreak(b, timeZone));
+}
+
+export function normaliseSchedule(raw: RawRecord, timeZoneOf: TimeZoneResolver): TandaSchedule {
+  const timeZone = timeZoneOf(rawNumber(raw.department_id));
+  return {
+    ...raw,
+    start: normaliseTime(raw.start, timeZone),
+    finish: normaliseTime(raw.finish, timeZone),
+    breaks: normaliseBreaks(raw.breaks, timeZone),
+  } as TandaSchedule;
+}
+
+export function normaliseShift(raw: RawRecord, timeZoneOf: TimeZoneResolver): TandaShift {
+  const timeZone = timeZoneOf(rawNumber(raw.department_id));
+  return {
+    ...raw,
+    start: normaliseTime(raw.start, timeZone),
+    finish: normaliseTime(raw.finish, timeZone),
+    breaks: normaliseBreaks(raw.breaks, timeZone),
+  } as TandaShift;
+}
+
+export function normaliseTimesheet(raw: RawRecord, timeZoneOf: TimeZoneResolver): TandaTimesheet {
+  return {
+    ...raw,
+    shifts: rawRecords(raw.shifts)?.map((s) => normaliseShift(s, timeZoneOf)) ?? [],
+  } as TandaTimesheet;
+}
+
+// Timesheets rebuilt from shifts, for when the timesheet endpoints are unavailable:
+// one per user per day, approved once every shift is
+export function timesheetsFromShifts(shifts: TandaShift[]): TandaTimesheet[] {
+  const byUserDay = new Map<string, TandaShift[]>();
+  for (const shift of shifts) {
+    const key = `${shift.user_id}:${shift.date}`;
+    byUserDay.set(key, [...(byUserDay.get(key) || []), shift]);
+  }
+  return Array.from(byUserDay.values()).map((dayShifts) => {
+    const approved = dayShifts.every((shift) => shift.status?.toLowerCase() === 'approved');
+    return {
+      id: dayShifts.find((shift) => shift.timesheet_id !== undefined)?.timesheet_id,
+      user_id: dayShifts[0].user_id,
+      date: dayShifts[0].date,
+      shifts: dayShifts,
+      status: approved ? 'approved' : 'pending',
+      approved,
+    };
+  });
+}
+
+export function normaliseActiveShift(raw: RawRecord, timeZoneOf: TimeZoneResolver): TandaActiveShift {
+  const timeZone = timeZoneOf(rawNumber(raw.department_id));
+  return {
+    ...raw,
+    start: normaliseTime(raw.start, timeZone),
+    break_start: normaliseTime(raw.break_start, timeZone),
+  } as TandaActiveShift;
+}
+
+// Breaks and unavailability aren't tied to a department, so use the default time zone
+export function normaliseShiftBreak(raw: RawRecord, timeZoneOf: TimeZoneResolver): TandaShiftBreak {
+  return normaliseBreak(raw, timeZoneOf()) as TandaShiftBreak;
+}
+
+export function normaliseUnavailability(raw: RawRecord, timeZoneOf: TimeZoneResolver): TandaUnavailability {
+  const timeZone = timeZoneOf();
+  return {
+    ...raw,
+    start: normaliseTime(raw.start, timeZone),
+    finish: normaliseTime(raw.finish, timeZone),
+  } as TandaUnavailability;
+}
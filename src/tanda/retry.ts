@@ -0,0 +1,85 @@
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+
+// Per-request retry state, carried on the axios config
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Idempotency guard: set on POSTs that are safe to repeat (e.g. approvals)
+    idempotent?: boolean;
+    retryCount?: number;
+  }
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+const RETRYABLE_STATUSES = [429, 500, 502, 503, 504];
+const RETRYABLE_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'ECONNREFUSED'];
+
+export function isIdempotent(requestConfig: InternalAxiosRequestConfig): boolean {
+  return IDEMPOTENT_METHODS.includes((requestConfig.method || 'get').toLowerCase()) || requestConfig.idempotent === true;
+}
+
+// Rate limits, transient upstream errors and dropped connections are worth retrying
+export function isRetryableError(error: AxiosError): boolean {
+  if (error.response) {
+    return RETRYABLE_STATUSES.includes(error.response.status);
+  }
+  return RETRYABLE_ERROR_CODES.includes(error.code || '');
+}
+
+// Delay the server asked for, from Retry-After (seconds or HTTP date) or
+// Tanda's X-RateLimit-Reset (epoch seconds). Undefined if neither is present.
+export function getServerRetryDelay(
+  headers: Record<string, unknown> | undefined,
+  now: number = Date.now()
+): number | undefined {
+  const retryAfter = headers?.['retry-after'];
+  if (retryAfter !== undefined && retryAfter !== null && retryAfter !== '') {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(String(retryAfter));
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const remaining = headers?.['x-ratelimit-remaining'];
+  const reset = Number(headers?.['x-ratelimit-reset']);
+  if (remaining !== undefined && Number(remaining) <= 0 && reset > 0) {
+    return Math.max(0, reset * 1000 - now);
+  }
+
+  return undefined;
+}
+
+// Exponential backoff with full jitter: random(0, min(max, base * 2^attempt))
+export function getBackoffDelay(attempt: number, options: RetryOptions, random: () => number = Math.random): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+// How long to wait before retrying the failed request, or undefined to give up.
+// Gives up rather than waiting longer than maxDelayMs for a rate limit to reset.
+export function getRetryDelay(error: AxiosError, options: RetryOptions): number | undefined {
+  const requestConfig = error.config;
+  if (!requestConfig || !isIdempotent(requestConfig) || !isRetryableError(error)) {
+    return undefined;
+  }
+
+  const attempt = requestConfig.retryCount || 0;
+  if (attempt >= options.maxRetries) {
+    return undefined;
+  }
+
+  const serverDelay = getServerRetryDelay(error.response?.headers as Record<string, unknown> | undefined);
+  if (serverDelay !== undefined) {
+    return serverDelay <= options.maxDelayMs ? serverDelay : undefined;
+  }
+  return getBackoffDelay(attempt, options);
+}
@@ -19,12 +19,14 @@ export interface TandaUser {
   date_of_birth?: string;
   employment_start_date?: string;
   employment_end_date?: string;
-  user_levels?: number[];
+  user_levels?: string[];  // Access levels, e.g. 'employee', 'manager', 'organisation_admin'
   preferred_hours?: number;
   award_template_id?: number;
   award_tag_ids?: number[];
+  department_ids?: number[];
   report_department_id?: number;
   managed_department_ids?: number[];
+  organisation_id?: number;
   time_zone?: string;
   utc_offset?: number;
   created_at?: string;
@@ -53,12 +55,21 @@ export interface TandaLocation {
   public_holiday_regions?: string[];
 }
 
+// Time as Tanda sends it: an ISO 8601 string or a Unix timestamp in seconds
+export type TandaRawTime = string | number;
+
+// Time normalised by TandaClient: the instant, and the wall-clock time at the location
+export interface TandaTime {
+  epoch: number; // Unix timestamp in seconds
+  iso: string;   // ISO 8601 with the location's UTC offset, e.g. 2024-04-07T17:00:00+10:00
+}
+
 export interface TandaSchedule {
   id: number;
   user_id?: number;
   department_id?: number;
-  start: string | number; // Can be ISO string or Unix timestamp
-  finish: string | number; // Can be ISO string or Unix timestamp
+  start?: TandaTime;   // Missing when Tanda sends no time, or one that can't be read
+  finish?: TandaTime;
   breaks?: TandaBreak[];
   shift_detail_id?: number;
   automatic_break_length?: number;
@@ -75,8 +86,8 @@ export interface TandaSchedule {
 
 export interface TandaBreak {
   id?: number;
-  start?: string;
-  finish?: string;
+  start?: TandaTime;
+  finish?: TandaTime;
   length?: number;
   paid?: boolean;
 }
@@ -85,11 +96,12 @@ export interface TandaShift {
   id: number;
   user_id: number;
   date: string;
-  start: string;
-  finish?: string;
+  start?: TandaTime;
+  finish?: TandaTime;
   breaks?: TandaBreak[];
   department_id?: number;
   status?: string;
+  timesheet_id?: number;
   allowances?: TandaAllowance[];
   tag_ids?: number[];
   notes?: string;
@@ -108,7 +120,7 @@ export interface TandaAllowance {
 }
 
 export interface TandaTimesheet {
-  id: number;
+  id?: number;  // Missing when rebuilt from shifts that don't name their timesheet
   user_id: number;
   date: string;
   shifts: TandaShift[];
@@ -202,8 +214,8 @@ export interface TandaUnavailability {
   id: number;
   user_id: number;
   title?: string;
-  start: string;
-  finish: string;
+  start?: TandaTime;
+  finish?: TandaTime;
   repeating?: boolean;
   repeating_info?: {
     frequency: string;
@@ -250,6 +262,10 @@ export interface TandaListResponse<T> {
   pagination?: TandaPagination;
 }
 
+// Called as a long-running fetch completes each unit of work (a day, a schedule):
+// units done so far, the total when known, and what was just done
+export type ProgressCallback = (progress: number, total?: number, message?: string) => void;
+
 // API Request Types
 export interface CreateScheduleRequest {
   user_id?: number;
@@ -322,11 +338,11 @@ export interface TandaActiveShift {
   id: number;
   user_id: number;
   user_name?: string;
-  start: string;
+  start?: TandaTime;
   department_id?: number;
   department_name?: string;
   status: 'active' | 'on_break';
-  break_start?: string;
+  break_start?: TandaTime;
   current_duration_minutes?: number;
 }
 
@@ -339,6 +355,13 @@ export interface TandaRoster {
   published?: boolean;
   cost?: number;
   department_ids?: number[];
+  schedules?: TandaRosterDay[];  // Included by /rosters/{id}, /rosters/current and /rosters/on/{date}
+}
+
+// One day of a roster's schedules, as Tanda sends them (times are not normalised)
+export interface TandaRosterDay {
+  date: string;
+  schedules: Array<{ id: number; user_id?: number; department_id?: number; [key: string]: unknown }>;
 }
 
 // Leave Type - available leave types for a user
@@ -367,8 +390,8 @@ export interface TandaLeaveHoursResult {
 export interface TandaShiftBreak {
   id: number;
   shift_id: number;
-  start: string;
-  finish?: string;
+  start?: TandaTime;
+  finish?: TandaTime;
   length?: number; // in minutes
   paid: boolean;
   status?: 'completed' | 'in_progress';
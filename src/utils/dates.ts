@@ -0,0 +1,127 @@
+import { config } from '../config/environment';
+
+// Time zone aware date helpers. Calendar dates are YYYY-MM-DD strings; instants are
+// Date objects. Shifts are bucketed by the local date and time of their location,
+// never by UTC or the server's own time zone.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ZonedParts {
+  date: string;    // YYYY-MM-DD
+  hour: number;    // 0-23
+  minute: number;
+  second: number;
+}
+
+// Intl formatters are expensive to create, so keep one per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A location's time zone, or the configured default when it has none (or an unknown one)
+export function resolveTimeZone(timeZone?: string): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : config.TANDA_DEFAULT_TIME_ZONE;
+}
+
+// Tanda sends times as ISO strings or Unix timestamps in seconds
+export function parseTandaTime(value: string | number): Date {
+  return typeof value === 'number' ? new Date(value * 1000) : new Date(value);
+}
+
+// Wall-clock date and time of an instant in a time zone
+export function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+// Local calendar date of an instant in a time zone
+export function toZonedDate(instant: Date, timeZone: string): string {
+  return getZonedParts(instant, timeZone).date;
+}
+
+// Minutes since local midnight
+export function minutesOfDay(instant: Date, timeZone: string): number {
+  const { hour, minute } = getZonedParts(instant, timeZone);
+  return hour * 60 + minute;
+}
+
+// Offset of the time zone from UTC at an instant, in milliseconds (e.g. +10:00 = 36000000)
+function getOffset(instant: number, timeZone: string): number {
+  const { date, hour, minute, second } = getZonedParts(new Date(instant), timeZone);
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
+// ISO 8601 wall-clock time with the zone's UTC offset, e.g. 2024-04-07T17:00:00+10:00
+export function formatZonedIso(instant: Date, timeZone: string): string {
+  const { date, hour, minute, second } = getZonedParts(instant, timeZone);
+  const offsetMinutes = Math.round(getOffset(instant.getTime(), timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const offset = `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`;
+  return `${date}T${pad(hour)}:${pad(minute)}:${pad(second)}${offset}`;
+}
+
+// Instant of a local date and time (HH:MM) in a time zone. Times repeated when clocks
+// go back resolve to the first occurrence; times skipped when clocks go forward
+// resolve to the same distance past the change (02:30 becomes 03:30).
+export function zonedTimeToInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute || 0);
+
+  // DST changes are months apart, so the offsets a day either side cover both candidates
+  const before = getOffset(wallClock - DAY_MS, timeZone);
+  const after = getOffset(wallClock + DAY_MS, timeZone);
+  const offset = [before, after].find((candidate) => getOffset(wallClock - candidate, timeZone) === candidate) ?? before;
+  return new Date(wallClock - offset);
+}
+
+// Add calendar days to a YYYY-MM-DD date
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+}
+
+// Every calendar date from `from` to `to` inclusive
+export function eachDate(from: string, to: string): string[] {
+  const dates: string[] = [];
+  if (Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to))) return dates;
+  for (let date = from.slice(0, 10); date <= to.slice(0, 10); date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
@@ -22,6 +22,9 @@ const jsonFormat = winston.format.combine(
   winston.format.json()
 );
 
+// The stdio transport reserves stdout for JSON-RPC messages, so every level goes to stderr
+const stderrLevels = config.MCP_TRANSPORT === 'stdio' ? Object.keys(winston.config.npm.levels) : undefined;
+
 export const logger = winston.createLogger({
   level: config.NODE_ENV === 'production' ? 'info' : 'debug',
   format: config.NODE_ENV === 'production' ? jsonFormat : logFormat,
@@ -30,13 +33,14 @@ export const logger = winston.createLogger({
       format: config.NODE_ENV === 'production'
         ? jsonFormat
         : winston.format.combine(winston.format.colorize(), logFormat),
+      stderrLevels,
     }),
   ],
   exceptionHandlers: [
-    new winston.transports.Console(),
+    new winston.transports.Console({ stderrLevels }),
   ],
   rejectionHandlers: [
-    new winston.transports.Console(),
+    new winston.transports.Console({ stderrLevels }),
   ],
 });
 
@@ -0,0 +1,178 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import request from 'supertest';
+import { Application } from 'express';
+import { createApp } from '../src/server/app';
+import { OAuthManager, oauthManager } from '../src/auth/oauth';
+import { MemorySessionStore } from '../src/auth/store';
+
+describe('API keys', () => {
+  const originalAdapter = axios.defaults.adapter;
+  let postSpy: jest.SpyInstance;
+
+  // Fake Tanda API: the access token decides which user is returned
+  const users: Record<string, Record<string, unknown>> = {
+    'access-admin': { id: 1, name: 'Admin', email: 'admin@example.com', active: true, user_levels: ['organisation_admin'] },
+    'access-employee': { id: 2, name: 'Staff', email: 'staff@example.com', active: true, user_levels: ['employee'] },
+    'access-service': { id: 3, name: 'Reports', email: 'reports@example.com', active: true, user_levels: ['manager'] },
+  };
+
+  beforeEach(() => {
+    axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const token = String(requestConfig.headers.Authorization).replace('Bearer ', '');
+      const user = users[token];
+      const response = {
+        data: user || { error: 'Unauthorized' },
+        status: user ? 200 : 401,
+        statusText: user ? 'OK' : 'Unauthorized',
+        headers: {},
+        config: requestConfig,
+      };
+      if (!user) {
+        throw new AxiosError('Unauthorized', AxiosError.ERR_BAD_REQUEST, requestConfig, null, response);
+      }
+      return response;
+    };
+
+    postSpy = jest.spyOn(axios, 'post').mockImplementation(async (_url, body) => {
+      const { grant_type, code, refresh_token } = body as { grant_type: string; code?: string; refresh_token?: string };
+      if (grant_type === 'refresh_token' && refresh_token === 'bad-refresh') {
+        throw new Error('invalid_grant');
+      }
+      const accessToken = grant_type === 'authorization_code' ? `access-${code}` : 'access-service';
+      return {
+        data: { access_token: accessToken, refresh_token: `${accessToken}-refresh`, expires_in: 7200, token_type: 'Bearer', scope: '', created_at: 0 },
+      };
+    });
+  });
+
+  afterEach(() => {
+    axios.defaults.adapter = originalAdapter;
+    postSpy.mockRestore();
+  });
+
+  describe('OAuthManager', () => {
+    let manager: OAuthManager;
+    let store: MemorySessionStore;
+
+    beforeEach(() => {
+      store = new MemorySessionStore();
+      manager = new OAuthManager(store);
+    });
+
+    const createKey = () =>
+      manager.createApiKey({ name: 'nightly', tandaRefreshToken: 'service-refresh', scopes: ['rosters:read'], createdBy: 1 });
+
+    it('should bind a new key to a service session for the token owner', async () => {
+      const result = await createKey();
+
+      expect(result.success).toBe(true);
+      expect(result.apiKey).toMatch(/^tmcp_[0-9a-f]{16}_/);
+      expect(result.user!.email).toBe('reports@example.com');
+
+      const payload = manager.verifyAccessToken(result.apiKey!);
+      expect(payload).toMatchObject({ userId: 3, scope: 'rosters:read', apiKeyId: result.keyId });
+      expect(manager.getSession(payload!.sessionId)).toMatchObject({ role: 'manager', apiKeyId: result.keyId });
+    });
+
+    it('should reject unknown keys and wrong secrets', async () => {
+      const result = await createKey();
+
+      expect(manager.verifyApiKey(`${result.apiKey!}x`)).toBeNull();
+      expect(manager.verifyApiKey('tmcp_0000000000000000_secret')).toBeNull();
+      expect(manager.verifyApiKey('tmcp_malformed')).toBeNull();
+    });
+
+    it('should fail when the Tanda refresh token is rejected', async () => {
+      const result = await manager.createApiKey({ name: 'broken', tandaRefreshToken: 'bad-refresh', scopes: [] });
+
+      expect(result).toEqual({ success: false, error: 'invalid_grant' });
+      expect(manager.listApiKeys()).toHaveLength(0);
+    });
+
+    it('should track last use without exposing secrets', async () => {
+      const result = await createKey();
+      expect(manager.listApiKeys()[0].lastUsedAt).toBeUndefined();
+
+      manager.verifyApiKey(result.apiKey!);
+
+      const [key] = manager.listApiKeys();
+      expect(key).toMatchObject({ id: result.keyId, name: 'nightly', scopes: ['rosters:read'], userId: 3, createdBy: 1 });
+      expect(key.lastUsedAt).toBeDefined();
+      expect(JSON.stringify(key)).not.toContain(result.apiKey!.slice(`tmcp_${result.keyId}_`.length));
+    });
+
+    it('should keep service sessions until the key is revoked', async () => {
+      const result = await createKey();
+      const { sessionId } = manager.verifyApiKey(result.apiKey!)!;
+
+      expect(manager.purgeExpiredSessions(Date.now() + 365 * 24 * 60 * 60 * 1000)).toBe(0);
+      expect(manager.getSession(sessionId)).toBeDefined();
+
+      expect(manager.revokeApiKey(result.keyId!)).toBe(true);
+      expect(manager.verifyApiKey(result.apiKey!)).toBeNull();
+      expect(manager.getSession(sessionId)).toBeUndefined();
+      expect(manager.revokeApiKey(result.keyId!)).toBe(false);
+    });
+  });
+
+  describe('admin routes', () => {
+    let app: Application;
+
+    beforeAll(() => {
+      app = createApp();
+    });
+
+    const login = async (code: string) => (await oauthManager.exchangeCodeForToken(code)).data!.jwt;
+
+    it('should require authentication', async () => {
+      await request(app).get('/admin/api-keys').expect(401);
+    });
+
+    it('should refuse non-admins', async () => {
+      const jwt = await login('employee');
+
+      await request(app).get('/admin/api-keys').set('Authorization', `Bearer ${jwt}`).expect(403);
+    });
+
+    it('should validate the request body', async () => {
+      const jwt = await login('admin');
+
+      await request(app).post('/admin/api-keys').set('Authorization', `Bearer ${jwt}`).send({ name: 'x' }).expect(400);
+      await request(app)
+        .post('/admin/api-keys')
+        .set('Authorization', `Bearer ${jwt}`)
+        .send({ name: 'x', tanda_refresh_token: 'service-refresh', scope: 'everything' })
+        .expect(400);
+    });
+
+    it('should create, list, use and revoke a key', async () => {
+      const jwt = await login('admin');
+
+      const created = await request(app)
+        .post('/admin/api-keys')
+        .set('Authorization', `Bearer ${jwt}`)
+        .send({ name: 'nightly', tanda_refresh_token: 'service-refresh', scope: 'rosters:read' })
+        .expect(201);
+      expect(created.body).toMatchObject({ name: 'nightly', scope: 'rosters:read', user: { id: 3 } });
+      const { id, api_key } = created.body;
+
+      // Accepted as a bearer token or through X-API-Key
+      await request(app).get('/api/me').set('Authorization', `Bearer ${api_key}`).expect(200);
+      const me = await request(app).get('/api/me').set('X-API-Key', api_key).expect(200);
+      expect(me.body.email).toBe('reports@example.com');
+
+      // API keys cannot manage API keys
+      await request(app).get('/admin/api-keys').set('X-API-Key', api_key).expect(403);
+
+      const listed = await request(app).get('/admin/api-keys').set('Authorization', `Bearer ${jwt}`).expect(200);
+      const key = listed.body.api_keys.find((k: { id: string }) => k.id === id);
+      expect(key).toMatchObject({ name: 'nightly', scope: 'rosters:read', user_id: 3, created_by: 1 });
+      expect(key.last_used_at).not.toBeNull();
+      expect(key).not.toHaveProperty('api_key');
+
+      await request(app).delete(`/admin/api-keys/${id}`).set('Authorization', `Bearer ${jwt}`).expect(204);
+      await request(app).delete(`/admin/api-keys/${id}`).set('Authorization', `Bearer ${jwt}`).expect(404);
+      await request(app).get('/api/me').set('X-API-Key', api_key).expect(401);
+    });
+  });
+});
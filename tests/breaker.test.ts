@@ -0,0 +1,122 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { EndpointBreaker, endpointBreaker } from '../src/tanda/breaker';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Tanda endpoint circuit breaker', () => {
+  describe('EndpointBreaker', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    let breaker: EndpointBreaker;
+
+    beforeEach(() => {
+      breaker = new EndpointBreaker(1000);
+    });
+
+    it('should open on 404 until the cool-down ends', () => {
+      breaker.recordFailure(1, '/stats/daily', 404, now);
+
+      expect(breaker.isOpen(1, '/stats/daily', now + 999)).toBe(true);
+      expect(breaker.isOpen(2, '/stats/daily', now + 999)).toBe(false);
+      expect(breaker.isOpen(1, '/stats/daily', now + 1000)).toBe(false);
+    });
+
+    it('should ignore transient failures, missing scopes and unknown organisations', () => {
+      breaker.recordFailure(1, '/stats/daily', 503, now);
+      // One caller's missing scope says nothing about the rest of the organisation
+      breaker.recordFailure(1, '/leave_balances', 403, now);
+      breaker.recordFailure(undefined, '/stats/daily', 404, now);
+
+      expect(breaker.isOpen(1, '/stats/daily', now)).toBe(false);
+      expect(breaker.isOpen(1, '/leave_balances', now)).toBe(false);
+      expect(breaker.isOpen(undefined, '/stats/daily', now)).toBe(false);
+    });
+
+    it('should close on success and report open circuits', () => {
+      breaker.recordFailure(1, '/stats/daily', 404, now);
+      breaker.recordFailure(1, '/reports/daily', 404, now);
+      breaker.recordSuccess(1, '/stats/daily');
+
+      expect(breaker.getState(now)).toEqual([
+        {
+          organisation_id: 1,
+          endpoint: '/reports/daily',
+          status: 404,
+          opened_at: '2024-01-01T00:00:00.000Z',
+          retry_at: '2024-01-01T00:00:01.000Z',
+        },
+      ]);
+    });
+  });
+
+  describe('TandaClient', () => {
+    const originalAdapter = axios.defaults.adapter;
+    let requests: string[];
+    let unavailable: string[];
+
+    beforeEach(() => {
+      endpointBreaker.reset();
+      requests = [];
+      unavailable = [];
+
+      // Fake Tanda API: 404s for the unavailable paths, empty lists otherwise
+      axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const url = requestConfig.url!;
+        requests.push(url);
+        const missing = unavailable.some((path) => url.startsWith(path));
+        const response = {
+          data: missing ? { error: 'Not found' } : [],
+          status: missing ? 404 : 200,
+          statusText: '',
+          headers: {},
+          config: requestConfig,
+        };
+        if (missing) {
+          throw new AxiosError('Not found', AxiosError.ERR_BAD_REQUEST, requestConfig, null, response);
+        }
+        return response;
+      };
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = originalAdapter;
+    });
+
+    it('should skip straight to the working fallback', async () => {
+      unavailable = ['/stats/daily', '/reports/daily'];
+      const client = new TandaClient('token', undefined, undefined, { organisationId: 1 });
+      const filter = { from: '2024-01-01', to: '2024-01-01' };
+
+      await client.getDailyStats(filter);
+      expect(requests).toEqual(['/stats/daily', '/reports/daily', '/schedules', '/shifts']);
+
+      requests = [];
+      await client.getDailyStats(filter);
+      expect(requests).toEqual(['/schedules', '/shifts']);
+      expect(endpointBreaker.getState().map((circuit) => circuit.endpoint)).toEqual(['/stats/daily', '/reports/daily']);
+    });
+
+    it('should never trip per-day endpoints for dates without data', async () => {
+      unavailable = ['/rosters/on/', '/timesheets/on/'];
+      const client = new TandaClient('token', undefined, undefined, { organisationId: 1 });
+
+      await client.getRosterCosts({ from: '2024-01-01', to: '2024-01-01' });
+      await client.getTimesheets({ from: '2024-01-01', to: '2024-01-02' });
+      expect(endpointBreaker.getState()).toEqual([]);
+
+      unavailable = [];
+      requests = [];
+      await client.getRosterCosts({ from: '2024-01-01', to: '2024-01-01' });
+
+      expect(requests).toEqual(['/rosters/on/2024-01-01']);
+    });
+
+    it('should keep trying endpoints without an organisation', async () => {
+      unavailable = ['/unavailabilities'];
+      const client = new TandaClient('token');
+
+      await client.getUnavailability({ from: '2024-01-01', to: '2024-01-01' });
+      await client.getUnavailability({ from: '2024-01-01', to: '2024-01-01' });
+
+      expect(requests).toEqual(['/unavailabilities', '/unavailability', '/unavailabilities', '/unavailability']);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { config } from '../src/config/environment';
+import { executeTool, getAvailableTools, splitDateRange } from '../src/mcp/tools';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Date range chunking', () => {
+  describe('splitDateRange', () => {
+    it('should split into consecutive 14-day windows', () => {
+      expect(splitDateRange('2024-01-01', '2024-01-31')).toEqual([
+        { from: '2024-01-01', to: '2024-01-14' },
+        { from: '2024-01-15', to: '2024-01-28' },
+        { from: '2024-01-29', to: '2024-01-31' },
+      ]);
+    });
+
+    it('should keep short ranges whole', () => {
+      expect(splitDateRange('2024-01-01', '2024-01-01')).toEqual([{ from: '2024-01-01', to: '2024-01-01' }]);
+    });
+  });
+
+  describe('executeTool', () => {
+    let client: Record<string, jest.Mock>;
+
+    beforeEach(() => {
+      client = {
+        getSchedules: jest.fn(async ({ from }: { from: string }) =>
+          // Schedule 2 spans the window boundary, so both windows return it
+          from === '2024-01-01' ? [{ id: 1 }, { id: 2 }] : [{ id: 2 }, { id: 3 }]
+        ),
+        // One roster week across the window boundary: each day carries the roster's id
+        getRosterCosts: jest.fn(async ({ from }: { from: string }) =>
+          from === '2024-01-01' ? [{ id: 9, date: '2024-01-14', cost: 10 }] : [{ id: 9, date: '2024-01-15', cost: 10 }]
+        ),
+        publishSchedules: jest.fn(),
+      };
+    });
+
+    afterEach(() => {
+      config.MCP_AUTO_CHUNK = false;
+    });
+
+    const run = (tool: string, args: Record<string, unknown>) =>
+      executeTool(client as unknown as TandaClient, tool, args);
+
+    it('should reject long ranges unless enabled', async () => {
+      const result = await run('tanda_schedules', { action: 'list', from: '2024-01-01', to: '2024-01-20' });
+
+      expect(result).toEqual({ content: { error: 'Max 14-day range per query. Split into smaller chunks.' }, isError: true });
+      expect(client.getSchedules).not.toHaveBeenCalled();
+    });
+
+    it('should fetch long ranges in windows and merge them by id', async () => {
+      config.MCP_AUTO_CHUNK = true;
+
+      const result = await run('tanda_schedules', { action: 'list', from: '2024-01-01', to: '2024-01-20', show_costs: true });
+
+      expect(client.getSchedules).toHaveBeenCalledTimes(2);
+      expect(client.getSchedules.mock.calls[1][0]).toMatchObject({ from: '2024-01-15', to: '2024-01-20', show_costs: true });
+      expect((result.content as { data: Array<{ id: number }> }).data.map((s) => s.id)).toEqual([1, 2, 3]);
+    });
+
+    it('should keep every day of a roster that spans windows', async () => {
+      config.MCP_AUTO_CHUNK = true;
+
+      const result = await run('tanda_realtime', { action: 'roster_costs', from: '2024-01-01', to: '2024-01-20' });
+
+      expect((result.content as { data: unknown[] }).data).toEqual([
+        { id: 9, date: '2024-01-14', cost: 10 },
+        { id: 9, date: '2024-01-15', cost: 10 },
+      ]);
+    });
+
+    it('should enforce the absolute maximum', async () => {
+      config.MCP_AUTO_CHUNK = true;
+
+      const result = await run('tanda_schedules', { action: 'list', from: '2024-01-01', to: '2024-06-01' });
+
+      expect(result.content).toEqual({ error: `Max ${config.MCP_MAX_RANGE_DAYS}-day range per query. Split into smaller chunks.` });
+    });
+
+    it('should not chunk publishing', async () => {
+      config.MCP_AUTO_CHUNK = true;
+
+      const result = await run('tanda_schedules', { action: 'publish', from: '2024-01-01', to: '2024-01-20' });
+
+      expect(result.isError).toBe(true);
+      expect(client.publishSchedules).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAvailableTools', () => {
+    afterEach(() => {
+      config.MCP_AUTO_CHUNK = false;
+    });
+
+    it('should advertise the longer range when enabled', () => {
+      const description = () => getAvailableTools().find((tool) => tool.name === 'tanda_schedules')!.description;
+      expect(description()).toContain('Max 14-day range');
+
+      config.MCP_AUTO_CHUNK = true;
+      expect(description()).toContain(`Max ${config.MCP_MAX_RANGE_DAYS}-day range`);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { config } from '../src/config/environment';
+import {
+  addDays,
+  eachDate,
+  minutesOfDay,
+  parseTandaTime,
+  resolveTimeZone,
+  toZonedDate,
+  zonedTimeToInstant,
+} from '../src/utils/dates';
+import { TandaClient } from '../src/tanda/client';
+import { SupervisorOptimizer } from '../src/supervisor/optimizer';
+
+describe('Time zone aware dates', () => {
+  describe('toZonedDate', () => {
+    it('should use the local date rather than UTC', () => {
+      // 00:30 on 2 January in Sydney is still 1 January in UTC
+      const instant = new Date('2024-01-01T13:30:00Z');
+
+      expect(toZonedDate(instant, 'Australia/Sydney')).toBe('2024-01-02');
+      expect(toZonedDate(instant, 'UTC')).toBe('2024-01-01');
+      expect(toZonedDate(instant, 'America/Los_Angeles')).toBe('2024-01-01');
+    });
+
+    it('should follow the offset across DST transitions', () => {
+      // Sydney moves from +11:00 to +10:00 at 03:00 on 7 April 2024
+      expect(minutesOfDay(new Date('2024-04-06T07:00:00Z'), 'Australia/Sydney')).toBe(18 * 60);
+      expect(minutesOfDay(new Date('2024-04-07T07:00:00Z'), 'Australia/Sydney')).toBe(17 * 60);
+    });
+  });
+
+  describe('zonedTimeToInstant', () => {
+    it('should convert local times on either side of a DST change', () => {
+      expect(zonedTimeToInstant('2024-03-09', '17:00', 'America/New_York').toISOString()).toBe('2024-03-09T22:00:00.000Z');
+      expect(zonedTimeToInstant('2024-03-10', '17:00', 'America/New_York').toISOString()).toBe('2024-03-10T21:00:00.000Z');
+      expect(zonedTimeToInstant('2024-10-06', '17:00', 'Australia/Sydney').toISOString()).toBe('2024-10-06T06:00:00.000Z');
+    });
+
+    it('should move times skipped when clocks go forward past the change', () => {
+      expect(zonedTimeToInstant('2024-03-10', '02:30', 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z');
+      expect(zonedTimeToInstant('2024-10-06', '02:30', 'Australia/Sydney').toISOString()).toBe('2024-10-05T16:30:00.000Z');
+    });
+
+    it('should use the first of two repeated times when clocks go back', () => {
+      expect(zonedTimeToInstant('2024-11-03', '01:30', 'America/New_York').toISOString()).toBe('2024-11-03T05:30:00.000Z');
+      expect(zonedTimeToInstant('2024-04-07', '02:30', 'Australia/Sydney').toISOString()).toBe('2024-04-06T15:30:00.000Z');
+    });
+  });
+
+  describe('eachDate', () => {
+    it('should list every calendar date once across DST changes', () => {
+      expect(eachDate('2024-03-09', '2024-03-12')).toEqual(['2024-03-09', '2024-03-10', '2024-03-11', '2024-03-12']);
+      expect(eachDate('2024-10-31', '2024-11-04')).toHaveLength(5);
+      expect(addDays('2024-02-28', 2)).toBe('2024-03-01');
+    });
+
+    it('should return nothing for invalid or reversed ranges', () => {
+      expect(eachDate('2024-01-02', '2024-01-01')).toEqual([]);
+      expect(eachDate('not-a-date', '2024-01-01')).toEqual([]);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should read Unix timestamps in seconds', () => {
+      expect(parseTandaTime(1704067200).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should fall back to the default time zone', () => {
+      expect(resolveTimeZone('Australia/Perth')).toBe('Australia/Perth');
+      expect(resolveTimeZone('Mars/Olympus_Mons')).toBe(config.TANDA_DEFAULT_TIME_ZONE);
+      expect(resolveTimeZone(undefined)).toBe(config.TANDA_DEFAULT_TIME_ZONE);
+    });
+  });
+
+  describe('TandaClient', () => {
+    const originalAdapter = axios.defaults.adapter;
+
+    beforeEach(() => {
+      // Per-day roster endpoint is missing, so costs are aggregated from schedules
+      axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const url = requestConfig.url!;
+        const data = {
+          '/schedules': [
+            { id: 1, department_id: 10, start: '2024-01-01T13:30:00Z', finish: '2024-01-01T21:30:00Z', cost: 100 },
+            { id: 2, department_id: 20, start: '2024-01-01T13:30:00Z', finish: '2024-01-01T21:30:00Z', cost: 50 },
+            // No times at all, so it can't be placed on a day
+            { id: 3, department_id: 10, start: null, finish: 'not a time', cost: 25 },
+          ],
+          '/shifts': [{ id: 4, user_id: 1, date: '2024-01-02', department_id: 10, start: '2024-01-01T14:00:00Z', finish: null }],
+          '/departments': [{ id: 10, name: 'Sydney', location_id: 1 }, { id: 20, name: 'Unlocated' }],
+          '/locations': [{ id: 1, name: 'Sydney', time_zone: 'Australia/Sydney' }],
+        }[url];
+        const response = { data: data ?? {}, status: data ? 200 : 404, statusText: '', headers: {}, config: requestConfig };
+        if (!data) {
+          throw new AxiosError('Not found', AxiosError.ERR_BAD_REQUEST, requestConfig, null, response);
+        }
+        return response;
+      };
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = originalAdapter;
+    });
+
+    it('should group roster costs by the local date of each location', async () => {
+      const costs = await new TandaClient('token').getRosterCosts({ from: '2024-01-01', to: '2024-01-02' });
+
+      expect(costs).toEqual([
+        { date: '2024-01-02', cost: 100, schedules_count: 1 },
+        { date: '2024-01-01', cost: 50, schedules_count: 1 },
+      ]);
+    });
+
+    it('should compute daily stats from schedules and shifts, skipping missing times', async () => {
+      const stats = await new TandaClient('token').getDailyStats({ from: '2024-01-01', to: '2024-01-02' });
+
+      expect(stats).toEqual([
+        { date: '2024-01-01', scheduled_hours: 8, actual_hours: 0, headcount: 1 },
+        { date: '2024-01-02', scheduled_hours: 8, actual_hours: 0, headcount: 1 },
+      ]);
+    });
+  });
+
+  describe('SupervisorOptimizer', () => {
+    const at = (iso: string) => ({ epoch: Date.parse(iso) / 1000, iso });
+    const client = (schedules: unknown[], timeZone: string) => ({
+      getSchedules: jest.fn().mockResolvedValue(schedules),
+      getUsers: jest.fn().mockResolvedValue([{ id: 1, name: 'Sam', email: '', active: true, managed_department_ids: [10] }]),
+      getDepartments: jest.fn().mockResolvedValue([{ id: 10, name: 'North', location_id: 1 }]),
+      getLocations: jest.fn().mockResolvedValue([{ id: 1, name: 'North', time_zone: timeZone }]),
+    }) as unknown as TandaClient;
+
+    it('should judge evening coverage in the location time zone on the day clocks go back', async () => {
+      // 17:00-20:00 in Sydney (+10:00 after DST ends), but 07:00-10:00 UTC
+      const schedules = [{ id: 5, user_id: 1, department_id: 10, start: at('2024-04-07T17:00:00+10:00'), finish: at('2024-04-07T20:00:00+10:00') }];
+
+      const analysis = await new SupervisorOptimizer(client(schedules, 'Australia/Sydney')).analyzeEveningCoverage('2024-04-07');
+
+      expect(analysis.summary.coveredLocations).toBe(1);
+    });
+
+    it('should not count a morning shift as evening when UTC says otherwise', async () => {
+      // 08:00-12:00 in Sydney, which is 21:00-01:00 UTC
+      const schedules = [{ id: 6, user_id: 1, department_id: 10, start: at('2024-01-02T08:00:00+11:00'), finish: at('2024-01-02T12:00:00+11:00') }];
+
+      const analysis = await new SupervisorOptimizer(client(schedules, 'Australia/Sydney')).analyzeEveningCoverage('2024-01-02');
+
+      expect(analysis.summary.coveredLocations).toBe(0);
+    });
+
+    it('should leave out schedules without times', async () => {
+      const schedules = [
+        { id: 7, user_id: 1, department_id: 10, finish: at('2024-01-02T20:00:00+11:00') },
+        { id: 8, user_id: 1, department_id: 10 },
+      ];
+      const optimizer = new SupervisorOptimizer(client(schedules, 'Australia/Sydney'));
+
+      expect((await optimizer.analyzeEveningCoverage('2024-01-02')).summary.coveredLocations).toBe(0);
+      expect(await optimizer.detectOverlaps('2024-01-02', '2024-01-02')).toEqual([]);
+    });
+
+    it('should recommend evening slots in the local time of each location', async () => {
+      const optimizer = new SupervisorOptimizer({
+        ...client([], 'America/New_York'),
+        getUnavailability: jest.fn().mockResolvedValue([
+          // Busy 17:00-22:00 New York time on 9 March only
+          { id: 1, user_id: 1, start: at('2024-03-09T17:00:00-05:00'), finish: at('2024-03-09T22:00:00-05:00') },
+        ]),
+      } as unknown as TandaClient);
+
+      const recommendations = await optimizer.generatePlacementRecommendations({
+        dateRange: { from: '2024-03-09', to: '2024-03-10' },
+      });
+
+      expect(recommendations.map((r) => r.suggestedSchedule.date)).toEqual(['2024-03-10']);
+    });
+
+    it('should create recommended schedules at the local time of a non-UTC location on a UTC server', async () => {
+      const originalTz = process.env.TZ;
+      process.env.TZ = 'UTC';
+      try {
+        const createSchedule = jest.fn().mockResolvedValue({ id: 1 });
+        const optimizer = new SupervisorOptimizer({
+          ...client([], 'America/New_York'),
+          getUnavailability: jest.fn().mockResolvedValue([]),
+          createSchedule,
+        } as unknown as TandaClient);
+
+        // Clocks go forward in New York on 10 March, so the evening is at -04:00
+        const [recommendation] = await optimizer.generatePlacementRecommendations({
+          dateRange: { from: '2024-03-10', to: '2024-03-10' },
+        });
+        const { start, finish } = recommendation.suggestedSchedule;
+        await optimizer.createBulkSchedules({
+          schedules: [{ supervisorId: 1, departmentId: 10, start, finish }],
+        });
+
+        expect(start).toBe('2024-03-10T17:00:00-04:00');
+        const created = createSchedule.mock.calls[0][0];
+        expect(new Date(created.start).getTime()).toBe(Date.UTC(2024, 2, 10, 21));
+        expect(new Date(created.finish).getTime()).toBe(Date.UTC(2024, 2, 11, 2));
+      } finally {
+        if (originalTz === undefined) delete process.env.TZ;
+        else process.env.TZ = originalTz;
+      }
+    });
+  });
+});
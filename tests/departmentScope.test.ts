@@ -0,0 +1,221 @@
+import { config } from '../src/config/environment';
+import { getDepartmentScope } from '../src/auth/roles';
+import { executeTool } from '../src/mcp/tools';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Department scoping', () => {
+  // Manager of departments 1 and 2; staff 10 and 11 work there, 20 works in department 3
+  const scope = { departmentIds: [1, 2] };
+  const staff = [
+    { id: 10, name: 'A', email: 'a@example.com', active: true, department_ids: [1] },
+    { id: 11, name: 'B', email: 'b@example.com', active: true, department_ids: [2, 3] },
+  ];
+  let client: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    client = {
+      getUsers: jest.fn().mockResolvedValue(staff),
+      getUser: jest.fn(),
+      getSchedules: jest.fn(),
+      getSchedule: jest.fn(),
+      deleteSchedule: jest.fn(),
+      publishSchedules: jest.fn(),
+      getShifts: jest.fn(),
+      getLeaveRequest: jest.fn(),
+      approveLeaveRequest: jest.fn(),
+      getLeaveBalances: jest.fn(),
+      getDepartments: jest.fn().mockResolvedValue([{ id: 1, name: 'One' }, { id: 3, name: 'Three' }]),
+      getRoster: jest.fn(),
+      getDailyStats: jest.fn(),
+      createSchedule: jest.fn(),
+    };
+  });
+
+  const run = (tool: string, args: Record<string, unknown>, context: { departmentIds?: number[] } = scope) =>
+    executeTool(client as unknown as TandaClient, tool, args, context);
+
+  describe('getDepartmentScope', () => {
+    const user = { managed_department_ids: [1, 2] };
+
+    afterEach(() => {
+      config.MCP_DEPARTMENT_SCOPING = false;
+    });
+
+    it('should be off unless enabled', () => {
+      expect(getDepartmentScope(user, 'manager')).toBeUndefined();
+    });
+
+    it('should scope managers and let admins bypass', () => {
+      config.MCP_DEPARTMENT_SCOPING = true;
+
+      expect(getDepartmentScope(user, 'manager')).toEqual([1, 2]);
+      expect(getDepartmentScope({}, 'manager')).toEqual([]);
+      expect(getDepartmentScope(user, 'admin')).toBeUndefined();
+    });
+  });
+
+  describe('users', () => {
+    it('should intersect the department filter with the scope', async () => {
+      client.getUsers.mockResolvedValue([staff[0], { id: 20, name: 'C', email: 'c@example.com', active: true, department_ids: [3] }]);
+
+      const result = await run('tanda_users', { action: 'list', department_ids: [1, 3] });
+
+      expect(client.getUsers).toHaveBeenCalledWith({ active: undefined, department_ids: [1] });
+      expect((result.content as { data: unknown[] }).data).toEqual([staff[0]]);
+    });
+
+    it('should return nothing when no requested department is managed', async () => {
+      const result = await run('tanda_users', { action: 'list', department_ids: [3] });
+
+      expect(client.getUsers).not.toHaveBeenCalled();
+      expect((result.content as { data: unknown[] }).data).toEqual([]);
+    });
+
+    it('should refuse users outside the scope', async () => {
+      client.getUser.mockResolvedValue({ id: 20, name: 'C', email: 'c@example.com', active: true, department_ids: [3] });
+
+      const result = await run('tanda_users', { action: 'get', user_id: 20 });
+
+      expect(result).toEqual({ content: { error: 'User 20 is outside your managed departments' }, isError: true });
+    });
+  });
+
+  describe('schedules', () => {
+    it('should default the department filter to the scope', async () => {
+      client.getSchedules.mockResolvedValue([
+        { id: 1, department_id: 1, start: 0, finish: 0 },
+        { id: 2, department_id: 3, start: 0, finish: 0 },
+      ]);
+
+      const result = await run('tanda_schedules', { action: 'list', from: '2024-01-01', to: '2024-01-07' });
+
+      expect(client.getSchedules.mock.calls[0][0].department_ids).toEqual([1, 2]);
+      expect((result.content as { data: Array<{ id: number }> }).data.map((s) => s.id)).toEqual([1]);
+    });
+
+    it('should not delete schedules outside the scope', async () => {
+      client.getSchedule.mockResolvedValue({ id: 5, department_id: 3, start: 0, finish: 0 });
+
+      const result = await run('tanda_schedules', { action: 'delete', schedule_id: 5 });
+
+      expect(result.isError).toBe(true);
+      expect(client.deleteSchedule).not.toHaveBeenCalled();
+    });
+
+    it('should only publish managed departments', async () => {
+      await run('tanda_schedules', { action: 'publish', from: '2024-01-01', to: '2024-01-07' });
+
+      expect(client.publishSchedules).toHaveBeenCalledWith('2024-01-01', '2024-01-07', [1, 2]);
+    });
+  });
+
+  describe('timesheets', () => {
+    it('should limit shifts to staff in scope', async () => {
+      client.getShifts.mockResolvedValue([{ id: 1, user_id: 11, date: '2024-01-01', start: '' }]);
+
+      await run('tanda_timesheets', { action: 'shifts', from: '2024-01-01', to: '2024-01-07', user_ids: [11, 20] });
+
+      expect(client.getUsers).toHaveBeenCalledWith({ department_ids: [1, 2] });
+      expect(client.getShifts.mock.calls[0][0].user_ids).toEqual([11]);
+    });
+  });
+
+  describe('leave', () => {
+    it('should not approve leave for staff outside the scope', async () => {
+      client.getLeaveRequest.mockResolvedValue({ id: 7, user_id: 20, status: 'pending' });
+
+      const result = await run('tanda_leave', { action: 'approve', leave_id: 7 });
+
+      expect(result).toEqual({ content: { error: 'User 20 is outside your managed departments' }, isError: true });
+      expect(client.approveLeaveRequest).not.toHaveBeenCalled();
+    });
+
+    it('should check user_id arguments', async () => {
+      const result = await run('tanda_leave', { action: 'balances', user_id: 20 });
+
+      expect(result.isError).toBe(true);
+      expect(client.getLeaveBalances).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('supervisors', () => {
+    const time = (hour: number) => ({ epoch: Date.UTC(2024, 0, 1, hour) / 1000, iso: '' });
+
+    it('should not create schedules in departments the manager does not manage', async () => {
+      const result = await run('tanda_supervisors', {
+        action: 'create_optimized',
+        schedules: [
+          { supervisor_id: 10, department_id: 1, start: '2024-01-01T16:00:00Z', finish: '2024-01-01T20:00:00Z' },
+          { supervisor_id: 10, department_id: 3, start: '2024-01-02T16:00:00Z', finish: '2024-01-02T20:00:00Z' },
+        ],
+      });
+
+      expect(result).toEqual({ content: { error: 'Department 3 is outside your managed departments' }, isError: true });
+      expect(client.createSchedule).not.toHaveBeenCalled();
+    });
+
+    it('should only look for overlaps in managed departments', async () => {
+      client.getUsers.mockResolvedValue([
+        { ...staff[0], managed_department_ids: [1] },
+        { id: 20, name: 'C', email: 'c@example.com', active: true, department_ids: [3], managed_department_ids: [3] },
+      ]);
+      client.getSchedules.mockResolvedValue([
+        { id: 1, user_id: 10, department_id: 1, start: time(16), finish: time(20) },
+        { id: 2, user_id: 10, department_id: 2, start: time(18), finish: time(22) },
+        { id: 3, user_id: 20, department_id: 3, start: time(16), finish: time(20) },
+        { id: 4, user_id: 20, department_id: 3, start: time(18), finish: time(22) },
+      ]);
+
+      const result = await run('tanda_supervisors', { action: 'detect_overlaps', from: '2024-01-01', to: '2024-01-01' });
+
+      expect(client.getSchedules.mock.calls[0][0].department_ids).toEqual([1, 2]);
+      expect((result.content as Array<{ supervisorId: number }>).map((o) => o.supervisorId)).toEqual([10]);
+    });
+  });
+
+  describe('rosters', () => {
+    it('should keep only schedules in managed departments', async () => {
+      client.getRoster.mockResolvedValue({
+        id: 9,
+        start: '2024-01-01',
+        finish: '2024-01-07',
+        cost: 5000,
+        department_ids: [1, 3],
+        schedules: [{ date: '2024-01-01', schedules: [{ id: 1, department_id: 1 }, { id: 2, department_id: 3 }] }],
+      });
+
+      const result = await run('tanda_rosters', { action: 'get', roster_id: 9 });
+
+      expect(result.content).toMatchObject({
+        department_ids: [1],
+        cost: undefined,
+        schedules: [{ date: '2024-01-01', schedules: [{ id: 1, department_id: 1 }] }],
+      });
+    });
+  });
+
+  describe('daily stats', () => {
+    it('should only return stats for managed departments', async () => {
+      client.getDailyStats.mockResolvedValue([
+        { date: '2024-01-01', department_id: 1, scheduled_hours: 8, actual_hours: 8, headcount: 1 },
+        { date: '2024-01-01', department_id: 3, scheduled_hours: 8, actual_hours: 8, headcount: 1 },
+        { date: '2024-01-01', scheduled_hours: 16, actual_hours: 16, headcount: 2 },
+      ]);
+
+      const result = await run('tanda_reference', { action: 'daily_stats', from: '2024-01-01', to: '2024-01-01', department_ids: [1, 3] });
+
+      expect(client.getDailyStats.mock.calls[0][0].department_ids).toEqual([1]);
+      expect((result.content as { data: Array<{ department_id?: number }> }).data.map((s) => s.department_id)).toEqual([1]);
+    });
+  });
+
+  it('should pass everything through when unscoped', async () => {
+    client.getLeaveRequest.mockResolvedValue({ id: 7, user_id: 20, status: 'pending' });
+    client.approveLeaveRequest.mockResolvedValue({ id: 7, status: 'approved' });
+
+    const result = await run('tanda_leave', { action: 'approve', leave_id: 7 }, {});
+
+    expect(result.content).toEqual({ id: 7, status: 'approved' });
+    expect(client.getLeaveRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { config } from '../src/config/environment';
+import {
+  TandaApiError,
+  TandaAuthExpiredError,
+  TandaMissingScopeError,
+  TandaNotFoundError,
+  TandaRateLimitedError,
+  TandaUpstreamError,
+  TandaValidationError,
+  createTandaApiError,
+} from '../src/tanda/errors';
+import { TandaClient } from '../src/tanda/client';
+import { executeTool } from '../src/mcp/tools';
+
+describe('Tanda API errors', () => {
+  describe('createTandaApiError', () => {
+    it.each([
+      [401, TandaAuthExpiredError, 'auth_expired', false],
+      [403, TandaMissingScopeError, 'missing_scope', false],
+      [404, TandaNotFoundError, 'not_found', false],
+      [422, TandaValidationError, 'validation_failed', false],
+      [429, TandaRateLimitedError, 'rate_limited', true],
+      [502, TandaUpstreamError, 'upstream_unavailable', true],
+      [409, TandaApiError, 'tanda_error', false],
+    ])('should classify %i responses', (status, errorClass, code, retryable) => {
+      const error = createTandaApiError('Failed', { status });
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error).toBeInstanceOf(TandaApiError);
+      expect(error).toMatchObject({ code, retryable, statusCode: status });
+    });
+
+    it('should treat a missing response as upstream down', () => {
+      expect(createTandaApiError('socket hang up', undefined)).toMatchObject({
+        code: 'upstream_unavailable',
+        statusCode: 503,
+        retryable: true,
+      });
+    });
+
+    it('should collect field errors', () => {
+      const error = createTandaApiError('Invalid', {
+        status: 422,
+        data: { errors: { start: ['is invalid'], user_id: 'must exist' } },
+      });
+
+      expect(error.toToolError()).toEqual({
+        code: 'validation_failed',
+        message: 'Invalid',
+        hint: expect.any(String),
+        retryable: false,
+        statusCode: 422,
+        fieldErrors: { start: ['is invalid'], user_id: ['must exist'] },
+      });
+    });
+
+    it('should report when to retry after a rate limit', () => {
+      const error = createTandaApiError('Slow down', { status: 429, headers: { 'retry-after': '30' } });
+
+      expect(error.toToolError()).toMatchObject({ code: 'rate_limited', retryable: true, retryAfterSeconds: 30 });
+    });
+  });
+
+  describe('executeTool', () => {
+    const originalAdapter = axios.defaults.adapter;
+    const originalRetries = config.TANDA_MAX_RETRIES;
+    let failure: { status: number; data: unknown };
+
+    beforeEach(() => {
+      config.TANDA_MAX_RETRIES = 0;
+      axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const response = { ...failure, statusText: '', headers: {}, config: requestConfig };
+        throw new AxiosError('Request failed', AxiosError.ERR_BAD_REQUEST, requestConfig, null, response);
+      };
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = originalAdapter;
+      config.TANDA_MAX_RETRIES = originalRetries;
+    });
+
+    it('should return actionable errors from the client', async () => {
+      failure = { status: 422, data: { errors: { finish: ['must be after start'] } } };
+
+      const result = await executeTool(new TandaClient('token'), 'tanda_schedules', {
+        action: 'create',
+        start: '2024-01-01T17:00:00',
+        finish: '2024-01-01T09:00:00',
+      });
+
+      expect(result).toEqual({
+        content: {
+          code: 'validation_failed',
+          message: 'finish must be after start',
+          hint: 'Fix the arguments listed in fieldErrors and try again.',
+          retryable: false,
+          statusCode: 422,
+          fieldErrors: { finish: ['must be after start'] },
+        },
+        isError: true,
+      });
+    });
+
+    it('should tell the caller to re-authenticate when the session has expired', async () => {
+      failure = { status: 401, data: { error: 'Token expired' } };
+
+      const result = await executeTool(new TandaClient('token'), 'tanda_schedules', { action: 'get', schedule_id: 1 });
+
+      expect(result.content).toMatchObject({ code: 'auth_expired', message: 'Token expired', retryable: false });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { compactValue, estimateTokens, parseShapeOptions } from '../src/mcp/formatting';
+import { executeTool } from '../src/mcp/tools';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Response formatting', () => {
+  const users = Array.from({ length: 3 }, (_, i) => ({
+    id: i + 1,
+    name: `User ${i + 1}`,
+    email: `user${i + 1}@example.com`,
+    phone: null,
+    photo: '',
+    department_ids: [10],
+    award_tag_ids: [],
+    time_zone: 'Australia/Brisbane',
+    active: true,
+  }));
+  const schedule = {
+    id: 7,
+    user_id: 1,
+    department_id: 10,
+    start: { epoch: 1704063600, iso: '2024-01-01T09:00:00+10:00' },
+    finish: { epoch: 1704094200, iso: '2024-01-01T17:30:00+10:00' },
+    breaks: [{ length: 30, paid: false }, { length: 10, paid: true }],
+    notes: '',
+    creation_platform: 'web',
+  };
+  let client: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    client = {
+      getUsers: jest.fn().mockResolvedValue(users),
+      getSchedule: jest.fn().mockResolvedValue(schedule),
+      getDepartments: jest.fn().mockResolvedValue([{ id: 10, name: 'Kitchen', colour: '#fff', staff: [1, 2, 3] }]),
+    };
+  });
+
+  const run = (tool: string, args: Record<string, unknown>) =>
+    executeTool(client as unknown as TandaClient, tool, args);
+
+  it('should return records unchanged by default', async () => {
+    const result = await run('tanda_users', { action: 'list' });
+
+    expect((result.content as { data: unknown[] }).data).toEqual(users);
+    expect(result.meta).toEqual({
+      format: 'full',
+      estimated_tokens: expect.any(Number),
+      full_estimated_tokens: result.meta!.estimated_tokens,
+    });
+  });
+
+  it('should summarise schedules as who, where, when and hours', async () => {
+    const result = await run('tanda_schedules', { action: 'get', schedule_id: 7, format: 'summary' });
+
+    expect(result.content).toEqual({
+      id: 7,
+      user_id: 1,
+      department_id: 10,
+      start: '2024-01-01T09:00:00+10:00',
+      finish: '2024-01-01T17:30:00+10:00',
+      hours: 8,
+    });
+    expect(result.meta!.estimated_tokens).toBeLessThan(result.meta!.full_estimated_tokens);
+  });
+
+  it('should summarise every record of a page', async () => {
+    const result = await run('tanda_users', { action: 'list', format: 'summary', limit: 2 });
+    const page = result.content as { data: unknown[]; pagination: { total: number } };
+
+    expect(page.data).toEqual([
+      { id: 1, name: 'User 1', email: 'user1@example.com', active: true, department_ids: [10] },
+      { id: 2, name: 'User 2', email: 'user2@example.com', active: true, department_ids: [10] },
+    ]);
+    expect(page.pagination.total).toBe(3);
+  });
+
+  it('should drop empty values in compact format', async () => {
+    const result = await run('tanda_users', { action: 'list', format: 'compact' });
+
+    expect((result.content as { data: unknown[] }).data[0]).toEqual({
+      id: 1,
+      name: 'User 1',
+      email: 'user1@example.com',
+      department_ids: [10],
+      time_zone: 'Australia/Brisbane',
+      active: true,
+    });
+  });
+
+  it('should project the requested fields', async () => {
+    const result = await run('tanda_reference', { action: 'departments', fields: ['id', 'name', 'missing'] });
+
+    expect((result.content as { data: unknown[] }).data).toEqual([{ id: 10, name: 'Kitchen' }]);
+    expect(result.meta!.fields).toEqual(['id', 'name', 'missing']);
+  });
+
+  it('should keep the shape on later cursor pages', async () => {
+    const first = await executeTool(client as unknown as TandaClient, 'tanda_users',
+      { action: 'list', fields: ['id'], limit: 2 }, { sessionId: 'session-1' });
+    const cursor = (first.content as { pagination: { next_cursor: string } }).pagination.next_cursor;
+
+    const second = await executeTool(client as unknown as TandaClient, 'tanda_users', { cursor }, { sessionId: 'session-1' });
+
+    expect((second.content as { data: unknown[] }).data).toEqual([{ id: 3 }]);
+  });
+
+  it('should fall back to compact for results without a summary shape', async () => {
+    client.deleteSchedule = jest.fn();
+
+    const result = await run('tanda_schedules', { action: 'delete', schedule_id: 7, format: 'summary' });
+
+    expect(result.content).toEqual({ success: true, message: 'Schedule deleted' });
+  });
+
+  it('should reject invalid options before calling Tanda', async () => {
+    const badFormat = await run('tanda_users', { action: 'list', format: 'tiny' });
+    const badFields = await run('tanda_users', { action: 'list', fields: 'id' });
+
+    expect(badFormat).toEqual({ content: { error: "Invalid format 'tiny'. Use one of: full, summary, compact." }, isError: true });
+    expect(badFields.isError).toBe(true);
+    expect(client.getUsers).not.toHaveBeenCalled();
+  });
+
+  it('should leave errors unshaped', async () => {
+    const result = await run('tanda_schedules', { action: 'get', format: 'summary' });
+
+    expect(result).toEqual({ content: { error: 'schedule_id required' }, isError: true });
+  });
+
+  describe('helpers', () => {
+    it('should compact nested values', () => {
+      expect(compactValue({ a: { b: null, c: [] }, d: [{ e: '', f: 0 }], g: false })).toEqual({ d: [{ f: 0 }], g: false });
+    });
+
+    it('should estimate about four characters per token', () => {
+      expect(estimateTokens({ name: 'abcdefgh' })).toBe(Math.ceil('{"name":"abcdefgh"}'.length / 4));
+    });
+
+    it('should default to the full format', () => {
+      expect(parseShapeOptions({})).toEqual({ valid: true, options: { format: 'full', fields: undefined } });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { config } from '../src/config/environment';
+import { ConcurrencyPool, TokenBucket, getRequestLimiter, purgeIdleLimiters } from '../src/tanda/limiter';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Tanda request limiter', () => {
+  describe('TokenBucket', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should allow a burst and then refill at the steady rate', async () => {
+      const bucket = new TokenBucket(2, 10); // 1 token every 100ms
+      const acquired: number[] = [];
+      for (let i = 0; i < 4; i++) {
+        bucket.acquire().then(() => acquired.push(i));
+      }
+
+      await Promise.resolve();
+      expect(acquired).toEqual([0, 1]);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(acquired).toEqual([0, 1, 2]);
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(acquired).toEqual([0, 1, 2, 3]);
+      expect(bucket.pending).toBe(0);
+    });
+  });
+
+  describe('ConcurrencyPool', () => {
+    it('should never run more than the limit at once', async () => {
+      const pool = new ConcurrencyPool(2);
+      let running = 0;
+      let peak = 0;
+
+      const results = await Promise.all(
+        [1, 2, 3, 4, 5].map((n) =>
+          pool.run(async () => {
+            running++;
+            peak = Math.max(peak, running);
+            await new Promise((resolve) => setTimeout(resolve, 5));
+            running--;
+            return n * 2;
+          })
+        )
+      );
+
+      expect(results).toEqual([2, 4, 6, 8, 10]);
+      expect(peak).toBe(2);
+      expect(pool.running).toBe(0);
+    });
+
+    it('should release slots when tasks fail', async () => {
+      const pool = new ConcurrencyPool(1);
+
+      await expect(pool.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+      await expect(pool.run(async () => 'ok')).resolves.toBe('ok');
+    });
+  });
+
+  describe('getRequestLimiter', () => {
+    it('should share one limiter per access token', () => {
+      expect(getRequestLimiter('token-a')).toBe(getRequestLimiter('token-a'));
+      expect(getRequestLimiter('token-a')).not.toBe(getRequestLimiter('token-b'));
+    });
+
+    it('should purge idle limiters', () => {
+      const limiter = getRequestLimiter('token-idle');
+
+      purgeIdleLimiters(Date.now() + 11 * 60 * 1000);
+
+      expect(getRequestLimiter('token-idle')).not.toBe(limiter);
+    });
+  });
+
+  describe('TandaClient', () => {
+    const originalAdapter = axios.defaults.adapter;
+    const originalLimit = config.TANDA_MAX_CONCURRENT_REQUESTS;
+    let running: number;
+    let peak: number;
+    let requests: string[];
+
+    beforeEach(() => {
+      config.TANDA_MAX_CONCURRENT_REQUESTS = 2;
+      running = 0;
+      peak = 0;
+      requests = [];
+      axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        requests.push(requestConfig.url!);
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return { data: { cost: 10 }, status: 200, statusText: 'OK', headers: {}, config: requestConfig };
+      };
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = originalAdapter;
+      config.TANDA_MAX_CONCURRENT_REQUESTS = originalLimit;
+    });
+
+    it('should fetch each day in parallel within the concurrency limit', async () => {
+      const client = new TandaClient(`token-${Date.now()}`);
+
+      const costs = await client.getRosterCosts({ from: '2024-01-01', to: '2024-01-05' });
+
+      expect(costs.map((cost) => cost.date)).toEqual(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-05']);
+      expect(requests).toHaveLength(5);
+      expect(peak).toBe(2);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import request from 'supertest';
 import { createApp } from '../src/server/app';
 import { Application } from 'express';
+import { oauthManager } from '../src/auth/oauth';
+import { TandaClient } from '../src/tanda/client';
 
 describe('MCP Protocol Endpoints', () => {
   let app: Application;
@@ -458,3 +460,136 @@ describe('MCP v4.0 Features', () => {
     });
   });
 });
+
+describe('JSON-RPC batches and notifications', () => {
+  let app: Application;
+
+  beforeAll(() => {
+    app = createApp();
+  });
+
+  let spies: jest.SpyInstance[] = [];
+
+  // Authenticated as a session with a (never called) Tanda client
+  const withAuth = () => {
+    spies = [
+      jest.spyOn(oauthManager, 'verifyAccessToken').mockReturnValue({ sessionId: 'batch-session' }),
+      jest.spyOn(oauthManager, 'getTandaClient').mockReturnValue({} as TandaClient),
+    ];
+  };
+
+  afterEach(() => {
+    spies.forEach((spy) => spy.mockRestore());
+    spies = [];
+  });
+
+  it('should accept notifications with 202 and no body', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      .expect(202);
+
+    expect(response.text).toBe('');
+  });
+
+  it('should accept responses to server requests with 202', async () => {
+    withAuth();
+
+    await request(app)
+      .post('/mcp')
+      .set('Authorization', 'Bearer token')
+      .send({ jsonrpc: '2.0', id: 'server-1', result: {} })
+      .expect(202);
+  });
+
+  it('should answer each request in a batch and skip notifications', async () => {
+    withAuth();
+
+    const response = await request(app)
+      .post('/mcp')
+      .set('Authorization', 'Bearer token')
+      .send([
+        { jsonrpc: '2.0', id: 1, method: 'ping' },
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 9 } },
+        { jsonrpc: '2.0', id: 'b', method: 'unknown/method' },
+      ])
+      .expect(200);
+
+    expect(response.body).toHaveLength(2);
+    expect(response.body[0]).toMatchObject({ jsonrpc: '2.0', id: 1, result: { status: 'ok' } });
+    expect(response.body[1]).toMatchObject({ id: 'b', error: { code: -32601 } });
+  });
+
+  it('should accept a batch of only notifications with 202', async () => {
+    await request(app)
+      .post('/mcp')
+      .send([
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 1 } },
+      ])
+      .expect(202);
+  });
+
+  it('should report invalid batch entries with a null id', async () => {
+    withAuth();
+
+    const response = await request(app)
+      .post('/mcp')
+      .set('Authorization', 'Bearer token')
+      .send([1, { jsonrpc: '2.0', id: 2, method: 'ping' }])
+      .expect(200);
+
+    expect(response.body[0]).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32600, message: 'Invalid JSON-RPC 2.0 request' },
+    });
+    expect(response.body[1]).toMatchObject({ id: 2, result: { status: 'ok' } });
+  });
+
+  it('should reject an empty batch', async () => {
+    const response = await request(app).post('/mcp').send([]).expect(400);
+
+    expect(response.body).toEqual({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32600, message: 'Invalid JSON-RPC 2.0 request' },
+    });
+  });
+
+  it('should reject requests with a null id', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .send({ jsonrpc: '2.0', id: null, method: 'initialize', params: {} })
+      .expect(200);
+
+    expect(response.body).toMatchObject({ id: null, error: { code: -32600, message: 'Request id must be a string or number' } });
+  });
+
+  it('should not batch initialize', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .send([{ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }])
+      .expect(200);
+
+    expect(response.headers['mcp-session-id']).toBeUndefined();
+    expect(response.body[0].error.message).toBe('initialize must not be part of a batch');
+  });
+
+  it('should still require authentication for batched requests', async () => {
+    await request(app)
+      .post('/mcp')
+      .send([{ jsonrpc: '2.0', method: 'notifications/initialized' }, { jsonrpc: '2.0', id: 1, method: 'tools/list' }])
+      .expect(401);
+  });
+
+  it('should return a parse error for malformed JSON', async () => {
+    const response = await request(app)
+      .post('/mcp')
+      .set('Content-Type', 'application/json')
+      .send('{"jsonrpc": "2.0",')
+      .expect(400);
+
+    expect(response.body).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+  });
+});
@@ -0,0 +1,121 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { normaliseSchedule, normaliseShift, normaliseTime, timesheetsFromShifts, toLocalDate } from '../src/tanda/normalise';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Time normalisation', () => {
+  describe('normaliseTime', () => {
+    it('should accept ISO strings and Unix timestamps alike', () => {
+      const expected = { epoch: 1712469600, iso: '2024-04-07T16:00:00+10:00' };
+
+      expect(normaliseTime('2024-04-07T06:00:00Z', 'Australia/Sydney')).toEqual(expected);
+      expect(normaliseTime('2024-04-07T16:00:00+10:00', 'Australia/Sydney')).toEqual(expected);
+      expect(normaliseTime(1712469600, 'Australia/Sydney')).toEqual(expected);
+    });
+
+    it('should use the offset in force at each instant across DST', () => {
+      expect(normaliseTime(1712336400, 'Australia/Sydney')!.iso).toBe('2024-04-06T04:00:00+11:00');
+      expect(normaliseTime(1712469600, 'Australia/Sydney')!.iso).toBe('2024-04-07T16:00:00+10:00');
+      expect(normaliseTime(1710025200, 'America/New_York')!.iso).toBe('2024-03-09T18:00:00-05:00');
+      expect(normaliseTime(1710108000, 'America/New_York')!.iso).toBe('2024-03-10T18:00:00-04:00');
+    });
+
+    it('should drop missing and unreadable times', () => {
+      expect(normaliseTime(undefined, 'UTC')).toBeUndefined();
+      expect(normaliseTime(null, 'UTC')).toBeUndefined();
+      expect(normaliseTime('not a time', 'UTC')).toBeUndefined();
+      expect(normaliseTime({ at: 1704060000 }, 'UTC')).toBeUndefined();
+    });
+
+    it('should give the local date', () => {
+      expect(toLocalDate(normaliseTime('2024-01-01T13:30:00Z', 'Australia/Sydney')!)).toBe('2024-01-02');
+    });
+  });
+
+  it('should normalise schedule breaks in the schedule time zone', () => {
+    const schedule = normaliseSchedule({
+      id: 1,
+      department_id: 10,
+      start: 1704060000,
+      finish: '2024-01-01T06:00:00Z',
+      breaks: [{ start: 1704070800, length: 30 }],
+    }, () => 'Australia/Perth');
+
+    expect(schedule).toEqual({
+      id: 1,
+      department_id: 10,
+      start: { epoch: 1704060000, iso: '2024-01-01T06:00:00+08:00' },
+      finish: { epoch: 1704088800, iso: '2024-01-01T14:00:00+08:00' },
+      breaks: [{ start: { epoch: 1704070800, iso: '2024-01-01T09:00:00+08:00' }, finish: undefined, length: 30 }],
+    });
+  });
+
+  it('should rebuild timesheets from shifts, one per user per day', () => {
+    const shifts = [
+      { id: 1, user_id: 7, date: '2024-01-01', status: 'APPROVED', timesheet_id: 40 },
+      { id: 2, user_id: 7, date: '2024-01-01', status: 'PENDING', timesheet_id: 40 },
+      { id: 3, user_id: 8, date: '2024-01-01', status: 'APPROVED' },
+    ].map((shift) => normaliseShift(shift, () => 'UTC'));
+
+    expect(timesheetsFromShifts(shifts)).toEqual([
+      { id: 40, user_id: 7, date: '2024-01-01', shifts: [shifts[0], shifts[1]], status: 'pending', approved: false },
+      { id: undefined, user_id: 8, date: '2024-01-01', shifts: [shifts[2]], status: 'approved', approved: true },
+    ]);
+  });
+
+  describe('TandaClient', () => {
+    const originalAdapter = axios.defaults.adapter;
+    let requests: string[];
+    let responses: Record<string, unknown>;
+
+    beforeEach(() => {
+      requests = [];
+      responses = {
+        '/departments': [{ id: 10, name: 'Perth', location_id: 1 }, { id: 20, name: 'Head office' }],
+        '/locations': [{ id: 1, name: 'Perth', time_zone: 'Australia/Perth' }],
+      };
+      axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        requests.push(requestConfig.url!);
+        return { data: responses[requestConfig.url!] ?? [], status: 200, statusText: '', headers: {}, config: requestConfig };
+      };
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = originalAdapter;
+    });
+
+    it('should return schedules with times in each location time zone', async () => {
+      responses['/schedules'] = [
+        { id: 1, department_id: 10, start: 1704060000, finish: 1704088800 },
+        { id: 2, department_id: 20, start: '2024-01-01T01:00:00+08:00', finish: '2024-01-01T09:00:00+08:00' },
+      ];
+      const client = new TandaClient('token');
+
+      const schedules = await client.getSchedules({ from: '2024-01-01', to: '2024-01-01' });
+      await client.getSchedules({ from: '2024-01-01', to: '2024-01-01' });
+
+      expect(schedules.map((s) => s.start)).toEqual([
+        { epoch: 1704060000, iso: '2024-01-01T06:00:00+08:00' },
+        { epoch: 1704042000, iso: '2023-12-31T17:00:00+00:00' },
+      ]);
+      // Location time zones are looked up once per client
+      expect(requests.filter((url) => url === '/departments')).toHaveLength(1);
+    });
+
+    it('should normalise shifts inside timesheets', async () => {
+      responses['/timesheets/on/2024-01-01'] = [
+        { id: 3, user_id: 1, date: '2024-01-01', shifts: [{ id: 4, department_id: 10, start: 1704060000 }] },
+      ];
+
+      const [timesheet] = await new TandaClient('token').getTimesheets({ from: '2024-01-01', to: '2024-01-01' });
+
+      expect(timesheet.shifts[0].start?.iso).toBe('2024-01-01T06:00:00+08:00');
+      expect(timesheet.shifts[0].finish).toBeUndefined();
+    });
+
+    it('should not look up time zones for empty results', async () => {
+      await new TandaClient('token').getShifts({ from: '2024-01-01', to: '2024-01-01' });
+
+      expect(requests).toEqual(['/shifts']);
+    });
+  });
+});
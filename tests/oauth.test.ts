@@ -1,12 +1,37 @@
 import request from 'supertest';
 import { createApp } from '../src/server/app';
 import { Application } from 'express';
+import { OAuthManager, oauthManager } from '../src/auth/oauth';
+import { MemorySessionStore } from '../src/auth/store';
+
+const user = { id: 7, name: 'Manager', email: 'manager@example.com', active: true };
+
+// OAuthManager on a fresh in-memory store with a logged-in Tanda session ('session-1').
+// authorize() runs the code flow for that session, or for a new one with the given scopes.
+function createOAuthFixture() {
+  const store = new MemorySessionStore();
+  const manager = new OAuthManager(store);
+  store.set('sessions', 'session-1', { state: '', createdAt: Date.now(), user, userId: user.id, accessToken: 'tanda-token' });
+
+  const authorize = (scopes?: string[]) => {
+    let sessionId = 'session-1';
+    if (scopes) {
+      sessionId = manager.createAuthSession({ scopes }).sessionId;
+      store.set('sessions', sessionId, { ...store.get('sessions', sessionId)!, user });
+    }
+    return manager.exchangeAuthCode(manager.generateAuthCode(sessionId));
+  };
+
+  return { store, manager, authorize };
+}
 
 describe('OAuth Endpoints', () => {
   let app: Application;
+  let clientId: string;
 
   beforeAll(() => {
     app = createApp();
+    clientId = oauthManager.registerClient({ redirect_uris: ['https://example.com/callback'] }).clientId!;
   });
 
   describe('GET /.well-known/oauth-authorization-server', () => {
@@ -47,6 +72,8 @@ describe('OAuth Endpoints', () => {
       expect(response.body.authorization_endpoint).toContain('/authorize');
       expect(response.body.token_endpoint).toContain('/token');
       expect(response.body.registration_endpoint).toContain('/oauth/register');
+      expect(response.body.revocation_endpoint).toContain('/revoke');
+      expect(response.body.introspection_endpoint).toContain('/introspect');
     });
   });
 
@@ -70,7 +97,7 @@ describe('OAuth Endpoints', () => {
     it('should set default values for optional fields', async () => {
       const response = await request(app)
         .post('/oauth/register')
-        .send({})
+        .send({ redirect_uris: ['https://example.com/callback'] })
         .expect(201);
 
       expect(response.body).toHaveProperty('client_id');
@@ -83,16 +110,68 @@ describe('OAuth Endpoints', () => {
     it('should generate unique client IDs', async () => {
       const response1 = await request(app)
         .post('/oauth/register')
-        .send({ client_name: 'Client 1' })
+        .send({ client_name: 'Client 1', redirect_uris: ['https://example.com/callback'] })
         .expect(201);
 
       const response2 = await request(app)
         .post('/oauth/register')
-        .send({ client_name: 'Client 2' })
+        .send({ client_name: 'Client 2', redirect_uris: ['https://example.com/callback'] })
         .expect(201);
 
       expect(response1.body.client_id).not.toBe(response2.body.client_id);
     });
+
+    it('should require redirect URIs', async () => {
+      const response = await request(app)
+        .post('/oauth/register')
+        .send({ client_name: 'No Redirects' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'invalid_redirect_uri');
+    });
+
+    it('should reject insecure redirect URIs', async () => {
+      for (const uri of ['http://example.com/callback', 'https://example.com/callback#frag', 'javascript:alert(1)', 'not a url']) {
+        const response = await request(app)
+          .post('/oauth/register')
+          .send({ redirect_uris: [uri] })
+          .expect(400);
+
+        expect(response.body).toHaveProperty('error', 'invalid_redirect_uri');
+      }
+    });
+
+    it('should allow loopback redirect URIs over http', async () => {
+      await request(app)
+        .post('/oauth/register')
+        .send({ redirect_uris: ['http://127.0.0.1/callback'] })
+        .expect(201);
+    });
+
+    it('should reject unsupported grant types and auth methods', async () => {
+      const grant = await request(app)
+        .post('/oauth/register')
+        .send({ redirect_uris: ['https://example.com/callback'], grant_types: ['client_credentials'] })
+        .expect(400);
+      expect(grant.body).toHaveProperty('error', 'invalid_client_metadata');
+
+      const method = await request(app)
+        .post('/oauth/register')
+        .send({ redirect_uris: ['https://example.com/callback'], token_endpoint_auth_method: 'private_key_jwt' })
+        .expect(400);
+      expect(method.body).toHaveProperty('error', 'invalid_client_metadata');
+    });
+
+    it('should issue a secret to client_secret_post clients', async () => {
+      const response = await request(app)
+        .post('/oauth/register')
+        .send({ redirect_uris: ['https://example.com/callback'], token_endpoint_auth_method: 'client_secret_post' })
+        .expect(201);
+
+      expect(response.body.client_secret).toBeDefined();
+      expect(response.body).toHaveProperty('client_secret_expires_at', 0);
+      expect(oauthManager.getClient(response.body.client_id)?.redirectUris).toEqual(['https://example.com/callback']);
+    });
   });
 
   describe('GET /authorize', () => {
@@ -100,6 +179,7 @@ describe('OAuth Endpoints', () => {
       const response = await request(app)
         .get('/authorize')
         .query({
+          client_id: clientId,
           redirect_uri: 'https://example.com/callback',
           state: 'test-state',
           code_challenge: 'test-challenge',
@@ -113,6 +193,7 @@ describe('OAuth Endpoints', () => {
       const response = await request(app)
         .get('/authorize')
         .query({
+          client_id: clientId,
           redirect_uri: 'https://example.com/callback',
         })
         .expect(302);
@@ -120,6 +201,45 @@ describe('OAuth Endpoints', () => {
       expect(response.headers['set-cookie']).toBeDefined();
       expect(response.headers['set-cookie'][0]).toContain('tanda_session');
     });
+
+    it('should default to the only registered redirect URI', async () => {
+      await request(app)
+        .get('/authorize')
+        .query({ client_id: clientId })
+        .expect(302);
+    });
+
+    it('should redirect unsupported scopes back to the client', async () => {
+      const response = await request(app)
+        .get('/authorize')
+        .query({ client_id: clientId, scope: 'schedules:read everything', state: 'test-state' })
+        .expect(302);
+
+      const location = new URL(response.headers.location);
+      expect(location.origin + location.pathname).toBe('https://example.com/callback');
+      expect(location.searchParams.get('error')).toBe('invalid_scope');
+      expect(location.searchParams.get('state')).toBe('test-state');
+    });
+
+    it('should reject unknown clients without redirecting', async () => {
+      const response = await request(app)
+        .get('/authorize')
+        .query({ client_id: 'unknown-client', redirect_uri: 'https://example.com/callback' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'invalid_client');
+      expect(response.headers.location).toBeUndefined();
+    });
+
+    it('should reject unregistered redirect URIs without redirecting', async () => {
+      const response = await request(app)
+        .get('/authorize')
+        .query({ client_id: clientId, redirect_uri: 'https://attacker.example/callback' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'invalid_request');
+      expect(response.headers.location).toBeUndefined();
+    });
   });
 
   describe('POST /token', () => {
@@ -141,6 +261,7 @@ describe('OAuth Endpoints', () => {
         .post('/token')
         .send({
           grant_type: 'authorization_code',
+          client_id: clientId,
         })
         .expect(400);
 
@@ -153,12 +274,78 @@ describe('OAuth Endpoints', () => {
         .post('/token')
         .send({
           grant_type: 'authorization_code',
+          client_id: clientId,
           code: 'invalid-code',
         })
         .expect(400);
 
       expect(response.body).toHaveProperty('error', 'invalid_grant');
     });
+
+    it('should reject unknown clients', async () => {
+      const response = await request(app)
+        .post('/token')
+        .send({ grant_type: 'authorization_code', client_id: 'unknown-client', code: 'test-code' })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('error', 'invalid_client');
+    });
+
+    it('should authenticate client_secret_post clients', async () => {
+      const confidential = oauthManager.registerClient({
+        redirect_uris: ['https://example.com/callback'],
+        token_endpoint_auth_method: 'client_secret_post',
+      });
+
+      await request(app)
+        .post('/token')
+        .send({ grant_type: 'authorization_code', client_id: confidential.clientId, client_secret: 'wrong', code: 'test-code' })
+        .expect(401);
+
+      const response = await request(app)
+        .post('/token')
+        .send({
+          grant_type: 'authorization_code',
+          client_id: confidential.clientId,
+          client_secret: confidential.clientSecret,
+          code: 'test-code',
+        })
+        .expect(400);
+      expect(response.body).toHaveProperty('error', 'invalid_grant');
+    });
+
+    it('should reject grants the client did not register', async () => {
+      const codeOnly = oauthManager.registerClient({
+        redirect_uris: ['https://example.com/callback'],
+        grant_types: ['authorization_code'],
+      });
+
+      const response = await request(app)
+        .post('/token')
+        .send({ grant_type: 'refresh_token', client_id: codeOnly.clientId, refresh_token: 'some-token' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'unauthorized_client');
+    });
+
+    it('should require refresh_token for the refresh grant', async () => {
+      const response = await request(app)
+        .post('/token')
+        .send({ grant_type: 'refresh_token', client_id: clientId })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'invalid_request');
+      expect(response.body.error_description).toContain('refresh_token');
+    });
+
+    it('should reject invalid refresh token', async () => {
+      const response = await request(app)
+        .post('/token')
+        .send({ grant_type: 'refresh_token', client_id: clientId, refresh_token: 'invalid-refresh-token' })
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'invalid_grant');
+    });
   });
 
   describe('GET /auth/login', () => {
@@ -247,6 +434,44 @@ describe('OAuth Endpoints', () => {
     });
   });
 
+  describe('POST /revoke', () => {
+    it('should require a token', async () => {
+      const response = await request(app)
+        .post('/revoke')
+        .send({})
+        .expect(400);
+
+      expect(response.body).toHaveProperty('error', 'invalid_request');
+    });
+
+    it('should accept unknown tokens', async () => {
+      await request(app)
+        .post('/revoke')
+        .type('form')
+        .send({ token: 'unknown-token', token_type_hint: 'refresh_token' })
+        .expect(200);
+    });
+  });
+
+  describe('POST /introspect', () => {
+    it('should require a bearer token', async () => {
+      const response = await request(app)
+        .post('/introspect')
+        .send({ token: 'some-token' })
+        .expect(401);
+
+      expect(response.body).toHaveProperty('error', 'invalid_client');
+    });
+
+    it('should reject an invalid bearer token', async () => {
+      await request(app)
+        .post('/introspect')
+        .set('Authorization', 'Bearer invalid-token')
+        .send({ token: 'some-token' })
+        .expect(401);
+    });
+  });
+
   describe('POST /api/authenticate', () => {
     it('should require authorization code', async () => {
       const response = await request(app)
@@ -280,3 +505,260 @@ describe('OAuth Endpoints', () => {
     });
   });
 });
+
+describe('OAuthManager refresh tokens', () => {
+  let store: MemorySessionStore;
+  let manager: OAuthManager;
+  let authorize: (scopes?: string[]) => ReturnType<OAuthManager['exchangeAuthCode']>;
+
+  beforeEach(() => {
+    ({ store, manager, authorize } = createOAuthFixture());
+  });
+
+  it('should issue a refresh token with the access token', () => {
+    const result = authorize();
+
+    expect(result.success).toBe(true);
+    expect(result.refreshToken).toBeDefined();
+    expect(result.expiresIn).toBe(24 * 60 * 60);
+    // Stored hashed, never in the clear
+    expect(JSON.stringify(store.entries('refreshTokens'))).not.toContain(result.refreshToken);
+  });
+
+  it('should rotate refresh tokens', () => {
+    const first = authorize();
+    const second = manager.exchangeRefreshToken(first.refreshToken!);
+
+    expect(second.success).toBe(true);
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(manager.verifyJWT(second.accessToken!)?.sessionId).toBe('session-1');
+    expect(manager.exchangeRefreshToken(second.refreshToken!).success).toBe(true);
+  });
+
+  it('should revoke the token family when a rotated token is reused', () => {
+    const first = authorize();
+    const second = manager.exchangeRefreshToken(first.refreshToken!);
+
+    expect(manager.exchangeRefreshToken(first.refreshToken!)).toEqual({
+      success: false,
+      error: 'Refresh token already used',
+    });
+    expect(manager.exchangeRefreshToken(second.refreshToken!).success).toBe(false);
+  });
+
+  it('should keep other token families when one is revoked', () => {
+    const first = authorize();
+    const other = authorize();
+    manager.exchangeRefreshToken(first.refreshToken!);
+    manager.exchangeRefreshToken(first.refreshToken!);
+
+    expect(manager.exchangeRefreshToken(other.refreshToken!).success).toBe(true);
+  });
+
+  it('should extend the session while a refresh token is live', () => {
+    store.set('sessions', 'session-1', { ...store.get('sessions', 'session-1')!, createdAt: Date.now() - 2 * 24 * 60 * 60 * 1000 });
+    const result = authorize();
+
+    expect(manager.purgeExpiredSessions()).toBe(0);
+    expect(manager.exchangeRefreshToken(result.refreshToken!).success).toBe(true);
+  });
+
+  it('should revoke refresh tokens when the session is invalidated', () => {
+    const result = authorize();
+    manager.invalidateSession('session-1');
+
+    expect(manager.exchangeRefreshToken(result.refreshToken!)).toEqual({
+      success: false,
+      error: 'Invalid refresh token',
+    });
+  });
+});
+
+describe('OAuthManager revocation and introspection', () => {
+  let store: MemorySessionStore;
+  let manager: OAuthManager;
+  let authorize: (scopes?: string[]) => ReturnType<OAuthManager['exchangeAuthCode']>;
+
+  beforeEach(() => {
+    ({ store, manager, authorize } = createOAuthFixture());
+  });
+
+  it('should issue access tokens with a unique jti', () => {
+    const first = manager.verifyJWT(authorize().accessToken!);
+    const second = manager.verifyJWT(authorize().accessToken!);
+
+    expect(first?.jti).toBeDefined();
+    expect(first?.jti).not.toBe(second?.jti);
+  });
+
+  it('should reject revoked access tokens', () => {
+    const { accessToken } = authorize();
+
+    expect(manager.revokeToken(accessToken!)).toBe(true);
+    expect(manager.verifyJWT(accessToken!)).toBeNull();
+    // Other tokens for the same session stay valid
+    expect(manager.verifyJWT(authorize().accessToken!)).not.toBeNull();
+  });
+
+  it('should revoke the refresh token family', () => {
+    const first = authorize();
+    const second = manager.exchangeRefreshToken(first.refreshToken!);
+
+    expect(manager.revokeToken(second.refreshToken!, 'refresh_token')).toBe(true);
+    expect(manager.exchangeRefreshToken(second.refreshToken!).success).toBe(false);
+  });
+
+  it('should ignore unknown tokens', () => {
+    expect(manager.revokeToken('not-a-token')).toBe(false);
+    expect(manager.introspectToken('not-a-token')).toEqual({ active: false });
+  });
+
+  it('should introspect access tokens', () => {
+    const { accessToken } = authorize();
+    const payload = manager.verifyJWT(accessToken!)!;
+
+    expect(manager.introspectToken(accessToken!)).toEqual({
+      active: true,
+      token_type: 'Bearer',
+      sub: '7',
+      email: 'manager@example.com',
+      jti: payload.jti,
+      exp: payload.exp,
+      iat: payload.iat,
+    });
+
+    manager.revokeToken(accessToken!);
+    expect(manager.introspectToken(accessToken!)).toEqual({ active: false });
+  });
+
+  it('should introspect refresh tokens', () => {
+    const { refreshToken } = authorize();
+
+    expect(manager.introspectToken(refreshToken!, 'refresh_token')).toMatchObject({
+      active: true,
+      token_type: 'refresh_token',
+      sub: '7',
+    });
+
+    manager.exchangeRefreshToken(refreshToken!);
+    expect(manager.introspectToken(refreshToken!)).toEqual({ active: false });
+  });
+
+  it('should report tokens for ended sessions as inactive', () => {
+    const { accessToken } = authorize();
+    manager.invalidateSession('session-1');
+
+    expect(manager.introspectToken(accessToken!)).toEqual({ active: false });
+  });
+
+  it('should purge denylist entries once the token has expired', () => {
+    const { accessToken } = authorize();
+    manager.revokeToken(accessToken!);
+    const { exp } = manager.introspectToken(authorize().accessToken!);
+
+    manager.purgeExpiredSessions((exp! + 1) * 1000);
+    expect(store.size('revokedTokens')).toBe(0);
+  });
+});
+
+describe('OAuthManager client binding', () => {
+  let manager: OAuthManager;
+  let clientId: string;
+  let sessionId: string;
+
+  beforeEach(() => {
+    const store = new MemorySessionStore();
+    manager = new OAuthManager(store);
+    clientId = manager.registerClient({ redirect_uris: ['https://example.com/callback', 'http://localhost/callback'] }).clientId!;
+    sessionId = manager.createAuthSession({ clientId, redirectUri: 'https://example.com/callback' }).sessionId;
+    store.set('sessions', sessionId, { ...store.get('sessions', sessionId)!, user });
+  });
+
+  it('should match loopback redirect URIs on any port', () => {
+    expect(manager.validateAuthorizationRequest(clientId, 'http://localhost:53682/callback').success).toBe(true);
+    expect(manager.validateAuthorizationRequest(clientId, 'http://localhost:53682/other').success).toBe(false);
+    expect(manager.validateAuthorizationRequest(clientId, 'https://example.com:8443/callback').success).toBe(false);
+  });
+
+  it('should require a redirect URI when several are registered', () => {
+    expect(manager.validateAuthorizationRequest(clientId)).toMatchObject({ success: false, error: 'invalid_request' });
+  });
+
+  it('should only exchange auth codes for the client they were issued to', () => {
+    const code = manager.generateAuthCode(sessionId);
+
+    expect(manager.exchangeAuthCode(code, undefined, { clientId: 'other-client' }).success).toBe(false);
+    // The code is spent by the failed attempt
+    expect(manager.exchangeAuthCode(code, undefined, { clientId }).success).toBe(false);
+  });
+
+  it('should check the redirect URI at the token endpoint', () => {
+    const mismatch = manager.exchangeAuthCode(manager.generateAuthCode(sessionId), undefined, {
+      clientId,
+      redirectUri: 'http://localhost/callback',
+    });
+    expect(mismatch.success).toBe(false);
+
+    const match = manager.exchangeAuthCode(manager.generateAuthCode(sessionId), undefined, {
+      clientId,
+      redirectUri: 'https://example.com/callback',
+    });
+    expect(match.success).toBe(true);
+  });
+
+  it('should only rotate refresh tokens for the client they were issued to', () => {
+    const { refreshToken } = manager.exchangeAuthCode(manager.generateAuthCode(sessionId), undefined, { clientId });
+
+    expect(manager.exchangeRefreshToken(refreshToken!, 'other-client').success).toBe(false);
+    expect(manager.exchangeRefreshToken(refreshToken!, clientId).success).toBe(true);
+  });
+
+  it('should purge clients that never completed an authorization', () => {
+    const unused = manager.registerClient({ redirect_uris: ['https://example.com/callback'] }).clientId!;
+    manager.exchangeAuthCode(manager.generateAuthCode(sessionId), undefined, { clientId });
+
+    expect(manager.purgeUnusedClients(Date.now() + 25 * 60 * 60 * 1000)).toBe(1);
+    expect(manager.getClient(unused)).toBeUndefined();
+    expect(manager.getClient(clientId)).toBeDefined();
+  });
+
+  it('should refuse registrations while too many clients are unused', () => {
+    for (let i = 0; i < 999; i++) {
+      manager.registerClient({ redirect_uris: ['https://example.com/callback'] });
+    }
+
+    expect(manager.registerClient({ redirect_uris: ['https://example.com/callback'] }))
+      .toMatchObject({ success: false, error: 'temporarily_unavailable' });
+  });
+});
+
+describe('OAuthManager scopes', () => {
+  let manager: OAuthManager;
+  let authorize: (scopes?: string[]) => ReturnType<OAuthManager['exchangeAuthCode']>;
+
+  beforeEach(() => {
+    ({ manager, authorize } = createOAuthFixture());
+  });
+
+  it('should embed granted scopes in the JWT', () => {
+    const result = authorize(['schedules:read', 'leave:approve']);
+
+    expect(result.scope).toBe('schedules:read leave:approve');
+    expect(manager.verifyJWT(result.accessToken!)?.scope).toBe('schedules:read leave:approve');
+    expect(manager.introspectToken(result.accessToken!).scope).toBe('schedules:read leave:approve');
+  });
+
+  it('should keep scopes across refreshes', () => {
+    const first = authorize(['reference:read']);
+    const second = manager.exchangeRefreshToken(first.refreshToken!);
+
+    expect(manager.verifyJWT(second.accessToken!)?.scope).toBe('reference:read');
+  });
+
+  it('should leave tokens without requested scopes unrestricted', () => {
+    const result = authorize();
+
+    expect(result.scope).toBeUndefined();
+    expect(manager.verifyJWT(result.accessToken!)?.scope).toBeUndefined();
+  });
+});
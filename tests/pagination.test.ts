@@ -0,0 +1,121 @@
+import { executeTool } from '../src/mcp/tools';
+import { ResultSnapshotStore, decodeCursor, encodeCursor } from '../src/mcp/snapshots';
+import { TandaClient } from '../src/tanda/client';
+
+type Page = { data: Array<{ id: number }>; pagination: { page: number; total: number; hasMore: boolean; next_cursor?: string } };
+
+describe('Cursor pagination', () => {
+  const users = Array.from({ length: 120 }, (_, i) => ({ id: i + 1, name: `User ${i + 1}`, email: '', active: true }));
+  let client: { getUsers: jest.Mock };
+
+  beforeEach(() => {
+    client = { getUsers: jest.fn().mockResolvedValue(users) };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const run = async (args: Record<string, unknown>, sessionId = 'session-1') =>
+    (await executeTool(client as unknown as TandaClient, 'tanda_users', args, { sessionId })).content as Page;
+
+  it('should serve later pages from the snapshot', async () => {
+    const first = await run({ action: 'list', limit: 50 });
+    expect(first.data[0].id).toBe(1);
+    expect(first.pagination).toMatchObject({ page: 1, total: 120, hasMore: true });
+
+    const second = await run({ cursor: first.pagination.next_cursor });
+    expect(second.data[0].id).toBe(51);
+    expect(second.pagination.page).toBe(2);
+
+    const third = await run({ cursor: second.pagination.next_cursor });
+    expect(third.data.map((u) => u.id)).toEqual(users.slice(100).map((u) => u.id));
+    expect(third.pagination).toMatchObject({ page: 3, hasMore: false });
+    expect(third.pagination.next_cursor).toBeUndefined();
+
+    expect(client.getUsers).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stay consistent when the upstream data changes', async () => {
+    const first = await run({ action: 'list', limit: 100 });
+    client.getUsers.mockResolvedValue([]);
+
+    const second = await run({ cursor: first.pagination.next_cursor });
+
+    expect(second.data).toHaveLength(20);
+  });
+
+  it('should re-run the query once the snapshot has expired', async () => {
+    const first = await run({ action: 'list', limit: 50, active: true });
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60 * 60 * 1000);
+
+    const second = await run({ cursor: first.pagination.next_cursor });
+
+    expect(second.data[0].id).toBe(51);
+    expect(client.getUsers).toHaveBeenCalledTimes(2);
+    expect(client.getUsers).toHaveBeenLastCalledWith({ active: true, department_ids: undefined });
+  });
+
+  it('should not share snapshots between sessions', async () => {
+    const first = await run({ action: 'list', limit: 50 });
+
+    await run({ cursor: first.pagination.next_cursor }, 'session-2');
+
+    expect(client.getUsers).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep page numbers working', async () => {
+    const page = await run({ action: 'list', limit: 50, page: 3 });
+
+    expect(page.data[0].id).toBe(101);
+    expect(page.pagination.next_cursor).toBeUndefined();
+  });
+
+  it('should reject malformed cursors and cursors for other tools', async () => {
+    const first = await run({ action: 'list', limit: 50 });
+
+    const invalid = await run({ cursor: 'not-a-cursor' });
+    expect(invalid).toEqual({ error: 'Invalid cursor. Repeat the original request without a cursor.' });
+
+    const result = await executeTool({} as TandaClient, 'tanda_schedules', { cursor: first.pagination.next_cursor });
+    expect(result.isError).toBe(true);
+  });
+
+  describe('ResultSnapshotStore', () => {
+    it('should expire snapshots', () => {
+      const store = new ResultSnapshotStore(1000);
+      const id = store.create('tanda_users', [1, 2], 'owner');
+
+      expect(store.get(id, 'tanda_users', 'owner')).toEqual([1, 2]);
+      expect(store.purgeExpired(Date.now() + 1001)).toBe(1);
+      expect(store.get(id, 'tanda_users', 'owner')).toBeUndefined();
+    });
+
+    it("should evict a caller's own oldest snapshots before anyone else's", () => {
+      const store = new ResultSnapshotStore(1000, 2, 10);
+      const other = store.create('tanda_users', [1], 'other');
+      const [first, second, third] = [1, 2, 3].map((page) => store.create('tanda_users', [page], 'busy'));
+
+      expect(store.get(first, 'tanda_users', 'busy')).toBeUndefined();
+      expect(store.get(second, 'tanda_users', 'busy')).toEqual([2]);
+      expect(store.get(third, 'tanda_users', 'busy')).toEqual([3]);
+      expect(store.get(other, 'tanda_users', 'other')).toEqual([1]);
+    });
+
+    it('should still cap snapshots across all callers', () => {
+      const store = new ResultSnapshotStore(1000, 2, 3);
+      const first = store.create('tanda_users', [1], 'a');
+      ['b', 'c', 'd'].forEach((owner) => store.create('tanda_users', [owner], owner));
+
+      expect(store.size).toBe(3);
+      expect(store.get(first, 'tanda_users', 'a')).toBeUndefined();
+    });
+
+    it('should round-trip cursors', () => {
+      const cursor = { snapshotId: 'abc', toolName: 'tanda_users', args: { action: 'list' }, offset: 50, limit: 50 };
+
+      expect(decodeCursor(encodeCursor(cursor), 'tanda_users')).toEqual(cursor);
+      expect(decodeCursor(encodeCursor({ ...cursor, offset: -1 }), 'tanda_users')).toBeNull();
+    });
+  });
+});
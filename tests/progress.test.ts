@@ -0,0 +1,162 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { PassThrough } from 'stream';
+import { config } from '../src/config/environment';
+import { MCPHandler } from '../src/mcp/handler';
+import { startStdioServer } from '../src/mcp/stdio';
+import { executeTool } from '../src/mcp/tools';
+import { SupervisorOptimizer } from '../src/supervisor/optimizer';
+import { TandaClient } from '../src/tanda/client';
+import { ProgressCallback } from '../src/tanda/types';
+
+describe('Progress notifications', () => {
+  const originalAdapter = axios.defaults.adapter;
+  const originalConfig = {
+    MCP_AUTO_CHUNK: config.MCP_AUTO_CHUNK,
+    MCP_STDIO_API_KEY: config.MCP_STDIO_API_KEY,
+    TANDA_ACCESS_TOKEN: config.TANDA_ACCESS_TOKEN,
+  };
+
+  beforeEach(() => {
+    // Fake Tanda API: one roster cost per day, nothing else
+    axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const date = requestConfig.url!.match(/^\/rosters\/on\/(.+)$/)?.[1];
+      return { data: date ? { id: date, cost: 100 } : [], status: 200, statusText: '', headers: {}, config: requestConfig };
+    };
+  });
+
+  afterEach(() => {
+    axios.defaults.adapter = originalAdapter;
+    Object.assign(config, originalConfig);
+  });
+
+  describe('TandaClient', () => {
+    it('should report each day of a day-by-day fetch', async () => {
+      const onProgress = jest.fn();
+
+      await new TandaClient('token').getRosterCosts({ from: '2024-01-01', to: '2024-01-03' }, onProgress);
+
+      expect(onProgress.mock.calls.map(([progress, total]) => [progress, total])).toEqual([[1, 3], [2, 3], [3, 3]]);
+      expect(onProgress.mock.calls.map(([, , message]) => message).sort()).toEqual([
+        'Fetched 2024-01-01',
+        'Fetched 2024-01-02',
+        'Fetched 2024-01-03',
+      ]);
+    });
+  });
+
+  describe('executeTool', () => {
+    it('should count progress across every window of a chunked range', async () => {
+      config.MCP_AUTO_CHUNK = true;
+      const client = {
+        getRosterCosts: jest.fn(async (filter: { from: string; to: string }, onProgress?: ProgressCallback) => {
+          const days = (Date.parse(filter.to) - Date.parse(filter.from)) / 86400000 + 1;
+          for (let day = 1; day <= days; day++) onProgress?.(day, days, `Fetched day ${day}`);
+          return [];
+        }),
+      } as unknown as TandaClient;
+      const onProgress = jest.fn();
+
+      await executeTool(client, 'tanda_realtime', { action: 'roster_costs', from: '2024-01-01', to: '2024-01-20' }, { onProgress });
+
+      expect(onProgress).toHaveBeenCalledTimes(20);
+      expect(onProgress).toHaveBeenLastCalledWith(20, 20, expect.any(String));
+    });
+  });
+
+  describe('SupervisorOptimizer', () => {
+    it('should report each schedule as it is created or fails', async () => {
+      const client = {
+        getSchedules: jest.fn().mockResolvedValue([]),
+        getUsers: jest.fn().mockResolvedValue([]),
+        getDepartments: jest.fn().mockResolvedValue([]),
+        getUnavailability: jest.fn().mockResolvedValue([]),
+        createSchedule: jest.fn()
+          .mockResolvedValueOnce({ id: 1 })
+          .mockRejectedValueOnce(new Error('Department closed')),
+      } as unknown as TandaClient;
+      const onProgress = jest.fn();
+
+      const result = await new SupervisorOptimizer(client).createBulkSchedules({
+        schedules: [
+          { supervisorId: 1, departmentId: 10, start: '2024-01-01T16:00:00', finish: '2024-01-01T20:00:00' },
+          { supervisorId: 2, departmentId: 20, start: '2024-01-01T16:00:00', finish: '2024-01-01T20:00:00' },
+        ],
+      }, onProgress);
+
+      expect(result.summary).toMatchObject({ totalCreated: 1, totalFailed: 1 });
+      expect(onProgress.mock.calls).toEqual([
+        [1, 2, 'Created schedule 1 for supervisor 1'],
+        [2, 2, 'Failed to create schedule for supervisor 2'],
+      ]);
+    });
+  });
+
+  describe('MCPHandler', () => {
+    const handler = new MCPHandler();
+    const callTool = (meta: Record<string, unknown> | undefined, protocolVersion: string, notify?: jest.Mock) =>
+      handler.handleRequest({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: {
+          name: 'tanda_realtime',
+          arguments: { action: 'roster_costs', from: '2024-01-01', to: '2024-01-02' },
+          _meta: meta,
+        },
+      }, new TandaClient('token'), { protocolVersion, notify });
+
+    it('should send notifications/progress for the request progressToken', async () => {
+      const notify = jest.fn();
+
+      const response = await callTool({ progressToken: 'costs-1' }, '2025-06-18', notify);
+
+      expect(response.result).toBeDefined();
+      expect(notify).toHaveBeenCalledTimes(2);
+      expect(notify).toHaveBeenLastCalledWith({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken: 'costs-1', progress: 2, total: 2, message: expect.stringMatching(/^Fetched /) },
+      });
+    });
+
+    it('should leave out progress messages for clients older than 2025-03-26', async () => {
+      const notify = jest.fn();
+
+      await callTool({ progressToken: 7 }, '2024-11-05', notify);
+
+      expect(notify.mock.calls[0][0].params).toEqual({ progressToken: 7, progress: 1, total: 2, message: undefined });
+    });
+
+    it('should not send progress unless the client asked for it', async () => {
+      const notify = jest.fn();
+
+      await callTool(undefined, '2025-06-18', notify);
+
+      expect(notify).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should write progress to stdout ahead of the stdio response', async () => {
+    config.MCP_STDIO_API_KEY = undefined;
+    config.TANDA_ACCESS_TOKEN = 'tanda-token';
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const done = startStdioServer(input, output);
+
+    input.end(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: {
+        name: 'tanda_realtime',
+        arguments: { action: 'roster_costs', from: '2024-01-01', to: '2024-01-01' },
+        _meta: { progressToken: 'p' },
+      },
+    }) + '\n');
+    await done;
+
+    const messages = output.read().toString().trim().split('\n').map((line: string) => JSON.parse(line));
+    expect(messages.map((message: { method?: string; id?: number }) => message.method ?? message.id))
+      .toEqual(['notifications/progress', 1]);
+  });
+});
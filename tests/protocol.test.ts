@@ -0,0 +1,99 @@
+import request from 'supertest';
+import { createApp } from '../src/server/app';
+import { MCPHandler } from '../src/mcp/handler';
+import { LATEST_PROTOCOL_VERSION, negotiateProtocolVersion, supportsFeature } from '../src/mcp/protocol';
+import { getAvailableTools } from '../src/mcp/tools';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Protocol version negotiation', () => {
+  describe('negotiateProtocolVersion', () => {
+    it('should agree to a supported version the client asks for', () => {
+      expect(negotiateProtocolVersion('2024-11-05')).toBe('2024-11-05');
+      expect(negotiateProtocolVersion('2025-06-18')).toBe('2025-06-18');
+    });
+
+    it('should offer the latest version otherwise', () => {
+      expect(negotiateProtocolVersion('2099-01-01')).toBe(LATEST_PROTOCOL_VERSION);
+      expect(negotiateProtocolVersion(undefined)).toBe(LATEST_PROTOCOL_VERSION);
+    });
+  });
+
+  describe('supportsFeature', () => {
+    it('should only enable features from the version that introduced them', () => {
+      expect(supportsFeature('2024-11-05', 'tool_annotations')).toBe(false);
+      expect(supportsFeature('2025-03-26', 'tool_annotations')).toBe(true);
+      expect(supportsFeature('2025-03-26', 'structured_output')).toBe(false);
+      expect(supportsFeature('2025-06-18', 'structured_output')).toBe(true);
+      expect(supportsFeature(undefined, 'tool_annotations')).toBe(false);
+    });
+  });
+
+  describe('tool annotations', () => {
+    const annotations = (protocolVersion?: string, scopes?: string[]) =>
+      Object.fromEntries(getAvailableTools({ protocolVersion, scopes }).map((tool) => [tool.name, tool.annotations]));
+
+    it('should be left out for older clients', () => {
+      expect(annotations('2024-11-05').tanda_schedules).toBeUndefined();
+    });
+
+    it('should describe the actions each tool offers', () => {
+      const tools = annotations('2025-03-26');
+
+      expect(tools.tanda_reference).toEqual({ readOnlyHint: true, destructiveHint: false });
+      expect(tools.tanda_schedules).toEqual({ readOnlyHint: false, destructiveHint: true });
+      expect(tools.tanda_supervisors).toEqual({ readOnlyHint: false, destructiveHint: false });
+      // Without write scopes only read actions remain
+      expect(annotations('2025-03-26', ['schedules:read']).tanda_schedules).toEqual({ readOnlyHint: true, destructiveHint: false });
+    });
+  });
+
+  describe('structured tool output', () => {
+    const handler = new MCPHandler();
+    const client = { getSchedule: jest.fn().mockResolvedValue({ id: 1 }) } as unknown as TandaClient;
+    const callTool = (protocolVersion: string) => handler.handleRequest({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'tools/call',
+      params: { name: 'tanda_schedules', arguments: { action: 'get', schedule_id: 1 } },
+    }, client, { protocolVersion });
+
+    it('should be included for clients on 2025-06-18', async () => {
+      const response = await callTool('2025-06-18');
+
+      expect(response.result).toMatchObject({ structuredContent: { id: 1 } });
+    });
+
+    it('should be left out for older clients', async () => {
+      const response = await callTool('2025-03-26');
+
+      expect((response.result as { structuredContent?: unknown }).structuredContent).toBeUndefined();
+      expect(JSON.parse((response.result as { content: { text: string }[] }).content[0].text)).toEqual({ id: 1 });
+    });
+  });
+
+  describe('HTTP', () => {
+    const app = createApp();
+    const initialize = (protocolVersion: string) => request(app).post('/mcp').send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion, clientInfo: { name: 'test-client', version: '1.0.0' }, capabilities: {} },
+    });
+
+    it('should answer initialize with the agreed version', async () => {
+      expect((await initialize('2025-03-26').expect(200)).body.result.protocolVersion).toBe('2025-03-26');
+      expect((await initialize('2024-11-05').expect(200)).body.result.protocolVersion).toBe('2024-11-05');
+      expect((await initialize('1.0').expect(200)).body.result.protocolVersion).toBe(LATEST_PROTOCOL_VERSION);
+    });
+
+    it('should reject an unsupported MCP-Protocol-Version header', async () => {
+      const response = await request(app)
+        .post('/mcp')
+        .set('MCP-Protocol-Version', '2023-01-01')
+        .send({ jsonrpc: '2.0', method: 'notifications/initialized' })
+        .expect(400);
+
+      expect(response.body.error.message).toBe('Unsupported protocol version: 2023-01-01');
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { config } from '../src/config/environment';
+import { TandaClient, TandaApiError } from '../src/tanda/client';
+import { getBackoffDelay, getServerRetryDelay } from '../src/tanda/retry';
+
+describe('Tanda API retries', () => {
+  const options = { maxRetries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  describe('getBackoffDelay', () => {
+    it('should grow exponentially up to the maximum', () => {
+      expect(getBackoffDelay(0, options, () => 0.999)).toBe(99);
+      expect(getBackoffDelay(2, options, () => 0.999)).toBe(399);
+      expect(getBackoffDelay(10, options, () => 0.999)).toBe(999);
+    });
+
+    it('should apply full jitter', () => {
+      expect(getBackoffDelay(2, options, () => 0)).toBe(0);
+      expect(getBackoffDelay(2, options, () => 0.5)).toBe(200);
+    });
+  });
+
+  describe('getServerRetryDelay', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    it('should read Retry-After in seconds or as a date', () => {
+      expect(getServerRetryDelay({ 'retry-after': '2' }, now)).toBe(2000);
+      expect(getServerRetryDelay({ 'retry-after': 'Mon, 01 Jan 2024 00:00:05 GMT' }, now)).toBe(5000);
+    });
+
+    it('should wait for the rate limit window to reset when exhausted', () => {
+      const reset = String(now / 1000 + 3);
+
+      expect(getServerRetryDelay({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }, now)).toBe(3000);
+      expect(getServerRetryDelay({ 'x-ratelimit-remaining': '10', 'x-ratelimit-reset': reset }, now)).toBeUndefined();
+      expect(getServerRetryDelay({}, now)).toBeUndefined();
+    });
+  });
+
+  describe('TandaClient', () => {
+    const originalAdapter = axios.defaults.adapter;
+    const originalConfig = {
+      TANDA_MAX_RETRIES: config.TANDA_MAX_RETRIES,
+      TANDA_RETRY_BASE_DELAY_MS: config.TANDA_RETRY_BASE_DELAY_MS,
+      TANDA_RETRY_MAX_DELAY_MS: config.TANDA_RETRY_MAX_DELAY_MS,
+    };
+    let requests: string[];
+    let failures: Array<{ status: number; headers?: Record<string, string> }>;
+
+    beforeEach(() => {
+      Object.assign(config, { TANDA_MAX_RETRIES: 2, TANDA_RETRY_BASE_DELAY_MS: 1, TANDA_RETRY_MAX_DELAY_MS: 1000 });
+      requests = [];
+      failures = [];
+
+      // Fake Tanda API: fails with the queued responses, then succeeds
+      axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        requests.push(`${requestConfig.method?.toUpperCase()} ${requestConfig.url}`);
+        const failure = failures.shift();
+        const response = {
+          data: failure ? { error: 'Try again' } : { id: 1 },
+          status: failure?.status ?? 200,
+          statusText: '',
+          headers: failure?.headers ?? {},
+          config: requestConfig,
+        };
+        if (failure) {
+          throw new AxiosError('Request failed', AxiosError.ERR_BAD_RESPONSE, requestConfig, null, response);
+        }
+        return response;
+      };
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = originalAdapter;
+      Object.assign(config, originalConfig);
+    });
+
+    it('should retry GETs on rate limits and server errors', async () => {
+      failures = [{ status: 429, headers: { 'retry-after': '0' } }, { status: 503 }];
+
+      await expect(new TandaClient('token').getSchedule(1)).resolves.toEqual({ id: 1 });
+      expect(requests).toHaveLength(3);
+    });
+
+    it('should give up after the maximum retries', async () => {
+      failures = [{ status: 502 }, { status: 502 }, { status: 502 }];
+
+      await expect(new TandaClient('token').getSchedule(1)).rejects.toMatchObject({ statusCode: 502 });
+      expect(requests).toHaveLength(3);
+    });
+
+    it('should not retry client errors', async () => {
+      failures = [{ status: 404 }];
+
+      await expect(new TandaClient('token').getSchedule(1)).rejects.toBeInstanceOf(TandaApiError);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should not wait longer than the maximum delay', async () => {
+      failures = [{ status: 429, headers: { 'retry-after': '60' } }];
+
+      await expect(new TandaClient('token').getSchedule(1)).rejects.toMatchObject({ statusCode: 429 });
+      expect(requests).toHaveLength(1);
+    });
+
+    it('should only retry POSTs guarded as idempotent', async () => {
+      const client = new TandaClient('token');
+
+      failures = [{ status: 503 }];
+      await expect(client.createSchedule({ start: '2024-01-01T09:00', finish: '2024-01-01T17:00' })).rejects.toMatchObject({
+        statusCode: 503,
+      });
+      expect(requests).toEqual(['POST /schedules']);
+
+      requests = [];
+      failures = [{ status: 503 }];
+      await client.approveShift(5);
+      expect(requests).toEqual(['POST /shifts/5/approve', 'POST /shifts/5/approve']);
+    });
+  });
+});
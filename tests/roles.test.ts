@@ -0,0 +1,98 @@
+import { deriveRole, hasRole } from '../src/auth/roles';
+import { OAuthManager } from '../src/auth/oauth';
+import { MemorySessionStore } from '../src/auth/store';
+import { executeTool, getAvailableTools } from '../src/mcp/tools';
+import { TandaClient } from '../src/tanda/client';
+
+describe('User roles', () => {
+  describe('deriveRole', () => {
+    it('should map admin access levels to admin', () => {
+      expect(deriveRole({ user_levels: ['employee', 'organisation_admin'] })).toBe('admin');
+      expect(deriveRole({ user_levels: ['Owner'] })).toBe('admin');
+    });
+
+    it('should map manager access levels and managed departments to manager', () => {
+      expect(deriveRole({ user_levels: ['roster_manager'] })).toBe('manager');
+      expect(deriveRole({ user_levels: ['employee'], managed_department_ids: [12] })).toBe('manager');
+    });
+
+    it('should default to employee', () => {
+      expect(deriveRole({ user_levels: ['employee'], managed_department_ids: [] })).toBe('employee');
+      expect(deriveRole({})).toBe('employee');
+    });
+  });
+
+  it('should rank roles', () => {
+    expect(hasRole('admin', 'manager')).toBe(true);
+    expect(hasRole('manager', 'manager')).toBe(true);
+    expect(hasRole('employee', 'manager')).toBe(false);
+  });
+
+  describe('getAvailableTools', () => {
+    const actions = (role: 'employee' | 'manager' | 'admin', name: string) => {
+      const tool = getAvailableTools({ role }).find((t) => t.name === name);
+      return (tool?.inputSchema.properties.action as { enum: string[] } | undefined)?.enum;
+    };
+
+    it('should hide manager actions from employees', () => {
+      expect(actions('employee', 'tanda_leave')).toEqual(['list', 'create', 'delete', 'balances', 'types', 'calculate_hours']);
+      expect(actions('employee', 'tanda_schedules')).toEqual(['list', 'get']);
+      expect(actions('employee', 'tanda_users')).not.toContain('invite');
+    });
+
+    it('should show manager actions to managers but keep admin actions hidden', () => {
+      expect(actions('manager', 'tanda_leave')).toContain('approve');
+      expect(actions('manager', 'tanda_users')).toContain('invite');
+      expect(actions('manager', 'tanda_users')).not.toContain('onboard');
+      expect(actions('admin', 'tanda_users')).toContain('onboard');
+    });
+
+    it('should apply scopes and role together', () => {
+      const tools = getAvailableTools({ role: 'employee', scopes: ['schedules:write', 'leave:read'] });
+
+      expect(tools.map((tool) => tool.name)).toEqual(['tanda_leave']);
+    });
+  });
+
+  describe('executeTool', () => {
+    it('should refuse disallowed actions before calling Tanda', async () => {
+      const approveLeaveRequest = jest.fn();
+      const result = await executeTool({ approveLeaveRequest } as unknown as TandaClient, 'tanda_leave', {
+        action: 'approve',
+        leave_id: 1,
+      }, { role: 'employee' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual({
+        error: "Action 'approve' on tanda_leave requires the manager role (current role: employee).",
+        requiredRole: 'manager',
+      });
+      expect(approveLeaveRequest).not.toHaveBeenCalled();
+    });
+
+    it('should allow employees their own write actions', async () => {
+      const deleteUnavailability = jest.fn().mockResolvedValue(undefined);
+      const result = await executeTool({ deleteUnavailability } as unknown as TandaClient, 'tanda_unavailability', {
+        action: 'delete',
+        unavailability_id: 3,
+      }, { role: 'employee' });
+
+      expect(result.isError).toBeUndefined();
+      expect(deleteUnavailability).toHaveBeenCalledWith(3);
+    });
+  });
+
+  describe('OAuthManager.getSessionRole', () => {
+    it('should return the stored role, deriving it for older sessions', () => {
+      const store = new MemorySessionStore();
+      const manager = new OAuthManager(store);
+      const user = { id: 1, name: 'Lead', email: 'lead@example.com', active: true, managed_department_ids: [4] };
+      store.set('sessions', 'stored', { state: '', createdAt: Date.now(), user, role: 'admin' });
+      store.set('sessions', 'legacy', { state: '', createdAt: Date.now(), user });
+
+      expect(manager.getSessionRole('stored')).toBe('admin');
+      expect(manager.getSessionRole('legacy')).toBe('manager');
+      expect(manager.getSessionRole('missing')).toBeUndefined();
+    });
+  });
+});
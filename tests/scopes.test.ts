@@ -0,0 +1,95 @@
+import { SUPPORTED_SCOPES, parseScope } from '../src/auth/scopes';
+import { executeTool, getAvailableTools, getRequiredScope } from '../src/mcp/tools';
+import { TandaClient } from '../src/tanda/client';
+
+describe('OAuth scopes', () => {
+  describe('parseScope', () => {
+    it('should grant every scope when none is requested', () => {
+      expect(parseScope(undefined)).toEqual({ valid: true, scopes: SUPPORTED_SCOPES });
+      expect(parseScope('')).toEqual({ valid: true, scopes: SUPPORTED_SCOPES });
+    });
+
+    it('should parse space-delimited scopes', () => {
+      expect(parseScope('schedules:read  leave:read schedules:read')).toEqual({
+        valid: true,
+        scopes: ['schedules:read', 'leave:read'],
+      });
+    });
+
+    it('should map legacy scopes to their read scopes', () => {
+      expect(parseScope('user department leave roster timesheet cost')).toEqual({
+        valid: true,
+        scopes: ['users:read', 'reference:read', 'leave:read', 'schedules:read', 'rosters:read', 'timesheets:read', 'realtime:read'],
+      });
+      expect(parseScope('roster schedules:write').scopes).toEqual(['schedules:read', 'rosters:read', 'schedules:write']);
+    });
+
+    it('should reject unknown scopes', () => {
+      expect(parseScope('schedules:read rosters')).toEqual({ valid: false, scopes: [], invalid: ['rosters'] });
+      expect(parseScope(['schedules:read']).valid).toBe(false);
+    });
+  });
+
+  describe('getRequiredScope', () => {
+    it('should map write actions to their write scope', () => {
+      expect(getRequiredScope('tanda_schedules', 'create')).toBe('schedules:write');
+      expect(getRequiredScope('tanda_leave', 'decline')).toBe('leave:approve');
+      expect(getRequiredScope('tanda_supervisors', 'create_optimized')).toBe('supervisors:create');
+    });
+
+    it('should map other actions to the read scope', () => {
+      expect(getRequiredScope('tanda_schedules', 'list')).toBe('schedules:read');
+      expect(getRequiredScope('tanda_reference', 'daily_stats')).toBe('reference:read');
+    });
+  });
+
+  describe('getAvailableTools', () => {
+    it('should return every tool without scopes', () => {
+      expect(getAvailableTools()).toHaveLength(9);
+    });
+
+    it('should hide tools and actions outside the granted scopes', () => {
+      const tools = getAvailableTools({ scopes: ['schedules:read', 'leave:read', 'leave:approve'] });
+
+      expect(tools.map((tool) => tool.name)).toEqual(['tanda_schedules', 'tanda_leave']);
+      const actions = (name: string) =>
+        (tools.find((tool) => tool.name === name)!.inputSchema.properties.action as { enum: string[] }).enum;
+      expect(actions('tanda_schedules')).toEqual(['list', 'get']);
+      expect(actions('tanda_leave')).toEqual(['list', 'approve', 'decline', 'balances', 'types', 'calculate_hours']);
+    });
+
+    it('should not modify the shared tool definitions', () => {
+      getAvailableTools({ scopes: ['schedules:read'] });
+
+      const schedules = getAvailableTools().find((tool) => tool.name === 'tanda_schedules')!;
+      expect((schedules.inputSchema.properties.action as { enum: string[] }).enum).toContain('create');
+    });
+  });
+
+  describe('executeTool', () => {
+    const client = {} as TandaClient;
+
+    it('should refuse actions outside the granted scopes', async () => {
+      const result = await executeTool(client, 'tanda_schedules', { action: 'delete', schedule_id: 1 }, {
+        scopes: ['schedules:read'],
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content).toEqual({
+        error: "Action 'delete' requires the 'schedules:write' scope.",
+        requiredScope: 'schedules:write',
+      });
+    });
+
+    it('should allow actions within the granted scopes', async () => {
+      const getSchedule = jest.fn().mockResolvedValue({ id: 1 });
+      const result = await executeTool({ getSchedule } as unknown as TandaClient, 'tanda_schedules', {
+        action: 'get',
+        schedule_id: 1,
+      }, { scopes: ['schedules:read'] });
+
+      expect(result.isError).toBeUndefined();
+      expect(getSchedule).toHaveBeenCalledWith(1);
+    });
+  });
+});
@@ -1,6 +1,9 @@
 import request from 'supertest';
 import { createApp } from '../src/server/app';
 import { Application } from 'express';
+import { oauthManager } from '../src/auth/oauth';
+import { endpointBreaker } from '../src/tanda/breaker';
+import { TandaClient } from '../src/tanda/client';
 
 describe('Server Endpoints', () => {
   let app: Application;
@@ -19,6 +22,49 @@ describe('Server Endpoints', () => {
       expect(response.body).toHaveProperty('status', 'healthy');
       expect(response.body).toHaveProperty('timestamp');
       expect(response.body).toHaveProperty('version');
+      expect(response.body).toHaveProperty('tanda_open_circuits');
+    });
+
+    it('should count open circuits without naming organisations', async () => {
+      endpointBreaker.recordFailure(1, '/stats/daily', 404);
+      endpointBreaker.recordFailure(2, '/stats/daily', 404);
+
+      const response = await request(app).get('/health').expect(200);
+
+      expect(response.body.tanda_open_circuits).toBe(2);
+      expect(JSON.stringify(response.body)).not.toContain('organisation');
+      endpointBreaker.reset();
+    });
+  });
+
+  describe('GET /stats', () => {
+    afterEach(() => {
+      endpointBreaker.reset();
+      jest.restoreAllMocks();
+    });
+
+    it('should leave out circuits when unauthenticated', async () => {
+      endpointBreaker.recordFailure(1, '/stats/daily', 404);
+
+      const response = await request(app).get('/stats').expect(200);
+
+      expect(response.body).not.toHaveProperty('tanda_circuits');
+    });
+
+    it("should show only the caller's organisation's circuits", async () => {
+      endpointBreaker.recordFailure(1, '/stats/daily', 404);
+      endpointBreaker.recordFailure(2, '/reports/daily', 404);
+      jest.spyOn(oauthManager, 'verifyAccessToken').mockReturnValue({ sessionId: 'stats-session' });
+      jest.spyOn(oauthManager, 'getTandaClient').mockReturnValue({} as TandaClient);
+      jest.spyOn(oauthManager, 'getSession').mockReturnValue({
+        state: '',
+        createdAt: Date.now(),
+        user: { id: 7, name: 'Manager', email: 'manager@example.com', active: true, organisation_id: 1 },
+      });
+
+      const response = await request(app).get('/stats').set('Authorization', 'Bearer token').expect(200);
+
+      expect(response.body.tanda_circuits).toEqual([expect.objectContaining({ organisation_id: 1, endpoint: '/stats/daily' })]);
     });
   });
 
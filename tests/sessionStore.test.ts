@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemorySessionStore, FileSessionStore } from '../src/auth/store';
+import { OAuthManager } from '../src/auth/oauth';
+
+describe('Session Store', () => {
+  let tempDir: string;
+  let storePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tanda-sessions-'));
+    storePath = path.join(tempDir, 'sessions.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const testUser = { id: 42, name: 'Test User', email: 'test@example.com', active: true };
+
+  describe('MemorySessionStore', () => {
+    it('should store and delete records per collection', () => {
+      const store = new MemorySessionStore();
+      store.set('sessions', 'abc', { state: 's', createdAt: 1 });
+
+      expect(store.get('sessions', 'abc')).toEqual({ state: 's', createdAt: 1 });
+      expect(store.get('authCodes', 'abc')).toBeUndefined();
+      expect(store.size('sessions')).toBe(1);
+
+      expect(store.delete('sessions', 'abc')).toBe(true);
+      expect(store.delete('sessions', 'abc')).toBe(false);
+      expect(store.entries('sessions')).toEqual([]);
+    });
+  });
+
+  describe('FileSessionStore', () => {
+    it('should survive a restart', () => {
+      const first = new FileSessionStore(storePath);
+      first.set('sessions', 'session-1', { state: 'state-1', createdAt: 1000, user: testUser });
+      first.set('authCodes', 'code-1', { sessionId: 'session-1', createdAt: 1000, used: false });
+
+      const restarted = new FileSessionStore(storePath);
+      expect(restarted.get('sessions', 'session-1')).toEqual({ state: 'state-1', createdAt: 1000, user: testUser });
+      expect(restarted.get('authCodes', 'code-1')).toEqual({ sessionId: 'session-1', createdAt: 1000, used: false });
+    });
+
+    it('should persist deletions', () => {
+      const first = new FileSessionStore(storePath);
+      first.set('sessions', 'session-1', { state: 'state-1', createdAt: 1000 });
+      first.delete('sessions', 'session-1');
+
+      const restarted = new FileSessionStore(storePath);
+      expect(restarted.get('sessions', 'session-1')).toBeUndefined();
+    });
+
+    it('should start empty when the snapshot is unreadable', () => {
+      fs.writeFileSync(storePath, '{not json');
+      const store = new FileSessionStore(storePath);
+      expect(store.size('sessions')).toBe(0);
+    });
+  });
+
+  describe('OAuthManager with a persistent store', () => {
+    it('should exchange an auth code issued before a restart', () => {
+      const before = new OAuthManager(new FileSessionStore(storePath));
+      const { sessionId } = before.createAuthSession({ redirectUri: 'https://example.com/callback' });
+      const session = before.getSession(sessionId)!;
+      // Simulate a completed Tanda callback
+      new FileSessionStore(storePath).set('sessions', sessionId, { ...session, user: testUser, accessToken: 'tanda-token' });
+      const code = new OAuthManager(new FileSessionStore(storePath)).generateAuthCode(sessionId);
+
+      const after = new OAuthManager(new FileSessionStore(storePath));
+      const result = after.exchangeAuthCode(code);
+
+      expect(result.success).toBe(true);
+      expect(after.verifyJWT(result.accessToken!)?.sessionId).toBe(sessionId);
+      expect(after.getTandaClient(sessionId)).not.toBeNull();
+      expect(after.getClientParams(sessionId)?.redirectUri).toBe('https://example.com/callback');
+    });
+
+    it('should remember that an auth code was used across restarts', () => {
+      const store = new FileSessionStore(storePath);
+      store.set('sessions', 'session-1', { state: '', createdAt: Date.now(), user: testUser });
+      const code = new OAuthManager(store).generateAuthCode('session-1');
+      expect(new OAuthManager(store).exchangeAuthCode(code).success).toBe(true);
+
+      const restarted = new OAuthManager(new FileSessionStore(storePath));
+      expect(restarted.exchangeAuthCode(code)).toEqual({ success: false, error: 'Authorization code already used' });
+    });
+
+    it('should purge expired sessions and auth codes', () => {
+      const store = new FileSessionStore(storePath);
+      const manager = new OAuthManager(store);
+      store.set('sessions', 'old', { state: '', createdAt: 0 });
+      store.set('authCodes', 'old-code', { sessionId: 'old', createdAt: 0, used: false });
+      manager.createAuthSession();
+
+      expect(manager.purgeExpiredSessions()).toBe(1);
+      expect(manager.purgeExpiredAuthCodes()).toBe(1);
+      expect(new FileSessionStore(storePath).size('sessions')).toBe(1);
+    });
+  });
+});
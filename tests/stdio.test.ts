@@ -0,0 +1,107 @@
+import { PassThrough } from 'stream';
+import { config } from '../src/config/environment';
+import { handleStdioMessage, resolveStdioAuth, startStdioServer } from '../src/mcp/stdio';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Stdio transport', () => {
+  const originalApiKey = config.MCP_STDIO_API_KEY;
+  const originalAccessToken = config.TANDA_ACCESS_TOKEN;
+
+  afterEach(() => {
+    config.MCP_STDIO_API_KEY = originalApiKey;
+    config.TANDA_ACCESS_TOKEN = originalAccessToken;
+  });
+
+  describe('resolveStdioAuth', () => {
+    it('should use a stored Tanda access token with every scope', () => {
+      config.TANDA_ACCESS_TOKEN = 'tanda-token';
+
+      const auth = resolveStdioAuth();
+
+      expect(auth!.tandaClient).toBeInstanceOf(TandaClient);
+      expect(auth!.context).toEqual({});
+      expect(resolveStdioAuth()!.tandaClient).toBe(auth!.tandaClient);
+    });
+
+    it('should refuse an unknown API key rather than fall back to the access token', () => {
+      config.MCP_STDIO_API_KEY = 'tmcp_unknown_secret';
+      config.TANDA_ACCESS_TOKEN = 'tanda-token';
+
+      expect(resolveStdioAuth()).toBeNull();
+    });
+
+    it('should return nothing without credentials', () => {
+      config.MCP_STDIO_API_KEY = undefined;
+      config.TANDA_ACCESS_TOKEN = undefined;
+
+      expect(resolveStdioAuth()).toBeNull();
+    });
+  });
+
+  describe('handleStdioMessage', () => {
+    it('should answer requests with the MCP handler', async () => {
+      const response = JSON.parse((await handleStdioMessage('{"jsonrpc":"2.0","id":1,"method":"ping"}'))!);
+
+      expect(response).toMatchObject({ jsonrpc: '2.0', id: 1, result: { status: 'ok' } });
+    });
+
+    it('should not answer notifications', async () => {
+      expect(await handleStdioMessage('{"jsonrpc":"2.0","method":"notifications/initialized"}')).toBeNull();
+    });
+
+    it('should report unparseable and invalid messages', async () => {
+      expect(JSON.parse((await handleStdioMessage('{not json'))!)).toEqual({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32700, message: 'Parse error' },
+      });
+      expect(JSON.parse((await handleStdioMessage('{"id":2,"method":"ping"}'))!).error.code).toBe(-32600);
+    });
+
+    it('should refuse tool calls without credentials', async () => {
+      config.MCP_STDIO_API_KEY = undefined;
+      config.TANDA_ACCESS_TOKEN = undefined;
+
+      const response = JSON.parse((await handleStdioMessage(JSON.stringify({
+        jsonrpc: '2.0',
+        id: 3,
+        method: 'tools/call',
+        params: { name: 'tanda_users', arguments: { action: 'current' } },
+      })))!);
+
+      expect(response.error.message).toBe('Authentication required. Please authenticate with Tanda first.');
+    });
+  });
+
+  it('should keep the version agreed on the first initialize', async () => {
+    const session = {};
+    const initialize = (id: number, protocolVersion: string) =>
+      handleStdioMessage(JSON.stringify({ jsonrpc: '2.0', id, method: 'initialize', params: { protocolVersion } }), undefined, session);
+
+    expect(JSON.parse((await initialize(1, '2024-11-05'))!).result.protocolVersion).toBe('2024-11-05');
+    expect(JSON.parse((await initialize(2, '2025-06-18'))!)).toMatchObject({ id: 2, error: { code: -32600, message: 'Already initialized' } });
+    expect(session).toEqual({ protocolVersion: '2024-11-05' });
+  });
+
+  it('should not record a version from an initialize notification', async () => {
+    const session = {};
+
+    await handleStdioMessage('{"jsonrpc":"2.0","method":"initialize","params":{"protocolVersion":"2024-11-05"}}', undefined, session);
+
+    expect(session).toEqual({});
+  });
+
+  it('should serve newline-delimited JSON-RPC until input closes', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const done = startStdioServer(input, output);
+
+    input.write('{"jsonrpc":"2.0","id":1,"method":"initialize","params":{}}\n');
+    input.write('{"jsonrpc":"2.0","method":"notifications/initialized"}\n\n');
+    input.end('{"jsonrpc":"2.0","id":2,"method":"ping"}\n');
+    await done;
+
+    const responses = output.read().toString().trim().split('\n').map((line: string) => JSON.parse(line));
+    expect(responses.map((response: { id: number }) => response.id).sort()).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,182 @@
+import axios, { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ResponseCache, tandaCache } from '../src/tanda/cache';
+import { TandaClient } from '../src/tanda/client';
+
+describe('Tanda response cache', () => {
+  describe('ResponseCache', () => {
+    let cache: ResponseCache;
+
+    beforeEach(() => {
+      cache = new ResponseCache({ departments: 1000, locations: 1000, users: 0 });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should serve repeat requests from the cache until they expire', async () => {
+      const fetch = jest.fn().mockResolvedValue([{ id: 1 }]);
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      await cache.getOrFetch(1, 'departments', '/departments', fetch);
+      expect(await cache.getOrFetch(1, 'departments', '/departments', fetch)).toEqual([{ id: 1 }]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+
+      jest.spyOn(Date, 'now').mockReturnValue(now + 1001);
+      await cache.getOrFetch(1, 'departments', '/departments', fetch);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep organisations and params apart', async () => {
+      const fetch = jest.fn().mockResolvedValue([]);
+
+      await cache.getOrFetch(1, 'departments', '/departments', fetch);
+      await cache.getOrFetch(2, 'departments', '/departments', fetch);
+      await cache.getOrFetch(1, 'locations', '/locations?active=true', fetch);
+      await cache.getOrFetch(1, 'locations', '/locations', fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should share pending fetches between concurrent callers', async () => {
+      const fetch = jest.fn().mockResolvedValue([{ id: 1 }]);
+
+      await Promise.all([
+        cache.getOrFetch(1, 'departments', '/departments', fetch),
+        cache.getOrFetch(1, 'departments', '/departments', fetch),
+      ]);
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return copies callers cannot use to change the cache', async () => {
+      const fetch = jest.fn().mockResolvedValue([{ id: 1 }]);
+
+      const first = await cache.getOrFetch<Array<{ id: number }>>(1, 'departments', '/departments', fetch);
+      first[0].id = 99;
+      first.push({ id: 2 });
+
+      expect(await cache.getOrFetch(1, 'departments', '/departments', fetch)).toEqual([{ id: 1 }]);
+    });
+
+    it('should not cache failures', async () => {
+      const fetch = jest.fn().mockRejectedValueOnce(new Error('down')).mockResolvedValue([]);
+
+      await expect(cache.getOrFetch(1, 'departments', '/departments', fetch)).rejects.toThrow('down');
+      await cache.getOrFetch(1, 'departments', '/departments', fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep users apart per access token', async () => {
+      cache = new ResponseCache({ departments: 1000, locations: 1000, users: 1000 });
+      const fetch = jest.fn().mockResolvedValue([]);
+
+      await cache.getOrFetch(1, 'users', '/users', fetch, 'admin-token');
+      await cache.getOrFetch(1, 'users', '/users', fetch, 'admin-token');
+      await cache.getOrFetch(1, 'users', '/users', fetch, 'employee-token');
+      // Not cached at all when the caller is unknown
+      await cache.getOrFetch(1, 'users', '/users', fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(cache.invalidate(1, 'users')).toBe(2);
+    });
+
+    it('should bypass resources with a zero TTL', async () => {
+      const fetch = jest.fn().mockResolvedValue([]);
+
+      await cache.getOrFetch(1, 'users', '/users', fetch);
+      await cache.getOrFetch(1, 'users', '/users', fetch);
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(cache.getStats().byResource.users).toEqual({ hits: 0, misses: 0 });
+    });
+
+    it('should invalidate one resource for one organisation', async () => {
+      const fetch = jest.fn().mockResolvedValue([]);
+      await cache.getOrFetch(1, 'departments', '/departments', fetch);
+      await cache.getOrFetch(1, 'locations', '/locations', fetch);
+      await cache.getOrFetch(2, 'departments', '/departments', fetch);
+
+      expect(cache.invalidate(1, 'departments')).toBe(1);
+      expect(cache.getStats().entries).toBe(2);
+    });
+
+    it('should count hits and misses', async () => {
+      const fetch = jest.fn().mockResolvedValue([]);
+      await cache.getOrFetch(1, 'departments', '/departments', fetch);
+      await cache.getOrFetch(1, 'departments', '/departments', fetch);
+      await cache.getOrFetch(1, 'departments', '/departments', fetch);
+      await cache.getOrFetch(1, 'locations', '/locations', fetch);
+
+      expect(cache.getStats()).toEqual({
+        entries: 2,
+        hits: 2,
+        misses: 2,
+        hitRate: 0.5,
+        byResource: {
+          departments: { hits: 2, misses: 1 },
+          locations: { hits: 0, misses: 1 },
+          users: { hits: 0, misses: 0 },
+        },
+      });
+    });
+  });
+
+  describe('TandaClient', () => {
+    const originalAdapter = axios.defaults.adapter;
+    let requests: string[];
+
+    beforeEach(() => {
+      tandaCache.clear();
+      requests = [];
+      axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        requests.push(`${requestConfig.method?.toUpperCase()} ${requestConfig.url}`);
+        return { data: [], status: 200, statusText: 'OK', headers: {}, config: requestConfig };
+      };
+    });
+
+    afterEach(() => {
+      axios.defaults.adapter = originalAdapter;
+    });
+
+    it('should cache reference data for the organisation', async () => {
+      const client = new TandaClient('token', undefined, undefined, { organisationId: 1 });
+
+      await client.getDepartments();
+      await client.getTeams();
+      await new TandaClient('other-token', undefined, undefined, { organisationId: 1 }).getDepartments();
+
+      expect(requests).toEqual(['GET /departments']);
+    });
+
+    it('should not serve one caller the users cached for another', async () => {
+      await new TandaClient('admin-token', undefined, undefined, { organisationId: 1 }).getUsers();
+      await new TandaClient('admin-token', undefined, undefined, { organisationId: 1 }).getUsers();
+      await new TandaClient('employee-token', undefined, undefined, { organisationId: 1 }).getUsers();
+
+      expect(requests).toEqual(['GET /users', 'GET /users']);
+    });
+
+    it('should invalidate users on writes', async () => {
+      const client = new TandaClient('token', undefined, undefined, { organisationId: 1 });
+
+      await client.getUsers({ active: true });
+      await client.getUsers({ active: true });
+      await client.updateUser(5, { name: 'Renamed' });
+      await client.getUsers({ active: true });
+
+      expect(requests).toEqual(['GET /users', 'PUT /users/5', 'GET /users']);
+    });
+
+    it('should not cache without an organisation', async () => {
+      const client = new TandaClient('token');
+
+      await client.getLocations();
+      await client.getLocations();
+
+      expect(requests).toEqual(['GET /locations', 'GET /locations']);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TokenCipher, TokenEncryptionError, parseEncryptionKeys } from '../src/auth/crypto';
+import { FileSessionStore } from '../src/auth/store';
+import { OAuthManager } from '../src/auth/oauth';
+
+describe('Token Encryption', () => {
+  const oldKey = { id: 'k1', secret: 'old-secret-that-is-at-least-32-characters' };
+  const newKey = { id: 'k2', secret: 'new-secret-that-is-at-least-32-characters' };
+
+  describe('TokenCipher', () => {
+    it('should round-trip values', () => {
+      const cipher = new TokenCipher([oldKey]);
+      const sealed = cipher.encrypt('tanda-access-token');
+
+      expect(sealed).not.toContain('tanda-access-token');
+      expect(cipher.keyIdOf(sealed)).toBe('k1');
+      expect(cipher.decrypt(sealed)).toBe('tanda-access-token');
+    });
+
+    it('should use a fresh data key for every value', () => {
+      const cipher = new TokenCipher([oldKey]);
+      expect(cipher.encrypt('same')).not.toBe(cipher.encrypt('same'));
+    });
+
+    it('should pass legacy plaintext through on decrypt', () => {
+      const cipher = new TokenCipher([oldKey]);
+      expect(cipher.decrypt('plain-token')).toBe('plain-token');
+    });
+
+    it('should reject values sealed with an unknown key', () => {
+      const sealed = new TokenCipher([oldKey]).encrypt('secret');
+      expect(() => new TokenCipher([newKey]).decrypt(sealed)).toThrow(TokenEncryptionError);
+    });
+
+    it('should detect tampering', () => {
+      const cipher = new TokenCipher([oldKey]);
+      const parts = cipher.encrypt('secret').split(':');
+      const body = Buffer.from(parts[4], 'base64url');
+      body[body.length - 1] ^= 0xff;
+      parts[4] = body.toString('base64url');
+
+      expect(() => cipher.decrypt(parts.join(':'))).toThrow();
+    });
+
+    it('should re-wrap values with the primary key after rotation', () => {
+      const sealed = new TokenCipher([oldKey]).encrypt('secret');
+      const rotated = new TokenCipher([newKey, oldKey]);
+
+      expect(rotated.needsRewrap(sealed)).toBe(true);
+      const rewrapped = rotated.rewrap(sealed);
+      expect(rotated.keyIdOf(rewrapped)).toBe('k2');
+      expect(rotated.needsRewrap(rewrapped)).toBe(false);
+      expect(new TokenCipher([newKey]).decrypt(rewrapped)).toBe('secret');
+    });
+  });
+
+  describe('parseEncryptionKeys', () => {
+    it('should parse id:secret pairs', () => {
+      expect(parseEncryptionKeys('a:one, b:two:with:colons')).toEqual([
+        { id: 'a', secret: 'one' },
+        { id: 'b', secret: 'two:with:colons' },
+      ]);
+      expect(parseEncryptionKeys(undefined)).toEqual([]);
+    });
+
+    it('should reject entries without an id', () => {
+      expect(() => parseEncryptionKeys('no-separator')).toThrow(TokenEncryptionError);
+    });
+  });
+
+  describe('OAuthManager.reencryptTokens', () => {
+    let tempDir: string;
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tanda-cipher-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should rotate stored tokens to the primary key', () => {
+      const storePath = path.join(tempDir, 'sessions.json');
+      const store = new FileSessionStore(storePath);
+      const oldCipher = new TokenCipher([oldKey]);
+      store.set('sessions', 'rotated', {
+        state: '',
+        createdAt: Date.now(),
+        accessToken: oldCipher.encrypt('access'),
+        refreshToken: oldCipher.encrypt('refresh'),
+      });
+      store.set('sessions', 'legacy', { state: '', createdAt: Date.now(), accessToken: 'plain-access' });
+
+      const manager = new OAuthManager(store, new TokenCipher([newKey, oldKey]));
+      expect(manager.reencryptTokens()).toBe(2);
+      expect(manager.reencryptTokens()).toBe(0);
+
+      const newOnly = new TokenCipher([newKey]);
+      const persisted = new FileSessionStore(storePath);
+      expect(newOnly.decrypt(persisted.get('sessions', 'rotated')!.accessToken!)).toBe('access');
+      expect(newOnly.decrypt(persisted.get('sessions', 'rotated')!.refreshToken!)).toBe('refresh');
+      expect(newOnly.decrypt(persisted.get('sessions', 'legacy')!.accessToken!)).toBe('plain-access');
+      expect(fs.readFileSync(storePath, 'utf8')).not.toContain('plain-access');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import axios, { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { MemorySessionStore } from '../src/auth/store';
+import { OAuthManager } from '../src/auth/oauth';
+import { TokenCipher } from '../src/auth/crypto';
+
+describe('Tanda token refresh write-back', () => {
+  const cipher = new TokenCipher([{ id: 'test', secret: 'test-token-secret-that-is-32-chars-long' }]);
+  const originalAdapter = axios.defaults.adapter;
+  let postSpy: jest.SpyInstance;
+  let refreshCount: number;
+  let spentRefreshTokens: Set<string>;
+  let sessionCounter = 0;
+
+  // Fake Tanda API: accepts only the refreshed access token
+  const validAccessToken = 'access-2';
+
+  beforeEach(() => {
+    refreshCount = 0;
+    spentRefreshTokens = new Set();
+
+    axios.defaults.adapter = async (requestConfig: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const authorized = requestConfig.headers.Authorization === `Bearer ${validAccessToken}`;
+      const response = {
+        data: authorized ? { id: 1, name: 'Test', email: 'test@example.com', active: true } : { error: 'Unauthorized' },
+        status: authorized ? 200 : 401,
+        statusText: authorized ? 'OK' : 'Unauthorized',
+        headers: {},
+        config: requestConfig,
+      };
+      if (!authorized) {
+        throw new AxiosError('Unauthorized', AxiosError.ERR_BAD_REQUEST, requestConfig, null, response);
+      }
+      return response;
+    };
+
+    postSpy = jest.spyOn(axios, 'post').mockImplementation(async (_url, body) => {
+      refreshCount++;
+      const { refresh_token } = body as { refresh_token: string };
+      // Tanda rotates refresh tokens: each one can be spent once
+      if (spentRefreshTokens.has(refresh_token)) {
+        throw new Error('invalid_grant');
+      }
+      spentRefreshTokens.add(refresh_token);
+      // Let concurrent callers pile up behind the first refresh
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return {
+        data: { access_token: 'access-2', refresh_token: 'refresh-2', expires_in: 7200, token_type: 'Bearer', scope: '', created_at: 0 },
+      };
+    });
+  });
+
+  afterEach(() => {
+    axios.defaults.adapter = originalAdapter;
+    postSpy.mockRestore();
+  });
+
+  // Each test spends a distinct refresh token, as completed refreshes are shared briefly
+  function createManagerWithStaleSession(): { manager: OAuthManager; store: MemorySessionStore; refreshToken: string } {
+    const refreshToken = `refresh-1-${++sessionCounter}`;
+    const store = new MemorySessionStore();
+    store.set('sessions', 'session-1', {
+      state: '',
+      createdAt: Date.now(),
+      accessToken: cipher.encrypt('access-1'),
+      refreshToken: cipher.encrypt(refreshToken),
+      tokenExpiresAt: Date.now() - 1000,
+    });
+    return { manager: new OAuthManager(store, cipher), store, refreshToken };
+  }
+
+  it('should persist rotated tokens to the session', async () => {
+    const { manager, store } = createManagerWithStaleSession();
+
+    await manager.getTandaClient('session-1')!.getCurrentUser();
+
+    const session = store.get('sessions', 'session-1')!;
+    expect(cipher.decrypt(session.accessToken!)).toBe('access-2');
+    expect(cipher.decrypt(session.refreshToken!)).toBe('refresh-2');
+    expect(session.tokenExpiresAt).toBeGreaterThan(Date.now());
+
+    // A client built after the refresh uses the new tokens without refreshing again
+    await manager.getTandaClient('session-1')!.getCurrentUser();
+    expect(refreshCount).toBe(1);
+  });
+
+  it('should refresh only once for concurrent requests on one session', async () => {
+    const { manager } = createManagerWithStaleSession();
+    const clients = [1, 2, 3].map(() => manager.getTandaClient('session-1')!);
+
+    const users = await Promise.all(clients.map((client) => client.getCurrentUser()));
+
+    expect(users.every((user) => user.id === 1)).toBe(true);
+    expect(refreshCount).toBe(1);
+  });
+
+  it('should ignore updates for a refresh token the session no longer holds', () => {
+    const { manager, store, refreshToken } = createManagerWithStaleSession();
+    const tokens = { access_token: 'a', refresh_token: 'r', expires_in: 60, token_type: 'Bearer', scope: '', created_at: 0 };
+
+    expect(manager.updateSessionTokens('session-1', tokens, 'some-other-token')).toBe(false);
+    expect(cipher.decrypt(store.get('sessions', 'session-1')!.refreshToken!)).toBe(refreshToken);
+    expect(manager.updateSessionTokens('missing', tokens, refreshToken)).toBe(false);
+  });
+});
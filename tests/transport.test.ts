@@ -0,0 +1,136 @@
+import request from 'supertest';
+import { Response } from 'express';
+import { createApp } from '../src/server/app';
+import { MCPSessionStore } from '../src/mcp/transport';
+
+describe('Streamable HTTP transport', () => {
+  describe('MCPSessionStore', () => {
+    const stream = () => {
+      const writes: string[] = [];
+      const res = { write: jest.fn((data: string) => writes.push(data)), end: jest.fn(), writableEnded: false, destroyed: false };
+      return { res: res as unknown as Response, writes, end: res.end };
+    };
+    const eventIds = (writes: string[]) => writes.map((data) => Number(/^id: (\d+)/.exec(data)![1]));
+
+    it('should route messages to the open stream as numbered events', () => {
+      const store = new MCPSessionStore(60000);
+      const session = store.create('owner')!;
+      const { res, writes } = stream();
+      store.attachStream(session, res);
+
+      store.send(session, { jsonrpc: '2.0', method: 'notifications/message' });
+
+      expect(writes).toEqual(['id: 1\nevent: message\ndata: {"jsonrpc":"2.0","method":"notifications/message"}\n\n']);
+    });
+
+    it('should deliver messages sent while no stream was open', () => {
+      const store = new MCPSessionStore(60000);
+      const session = store.create()!;
+      store.send(session, { n: 1 });
+      store.send(session, { n: 2 });
+      const { res, writes } = stream();
+
+      store.attachStream(session, res);
+
+      expect(eventIds(writes)).toEqual([1, 2]);
+    });
+
+    it('should replay events after Last-Event-ID on reconnect', () => {
+      const store = new MCPSessionStore(60000);
+      const session = store.create()!;
+      const first = stream();
+      store.attachStream(session, first.res);
+      [1, 2, 3].forEach((n) => store.send(session, { n }));
+      store.detachStream(session, first.res);
+
+      const second = stream();
+      store.attachStream(session, second.res, 1);
+
+      expect(eventIds(second.writes)).toEqual([2, 3]);
+    });
+
+    it('should keep one stream per session', () => {
+      const store = new MCPSessionStore(60000);
+      const session = store.create()!;
+      const first = stream();
+      const second = stream();
+      store.attachStream(session, first.res);
+      store.attachStream(session, second.res);
+
+      store.send(session, { n: 1 });
+
+      expect(first.end).toHaveBeenCalled();
+      expect(first.writes).toEqual([]);
+      expect(eventIds(second.writes)).toEqual([1]);
+    });
+
+    it('should only return sessions to their owner', () => {
+      const store = new MCPSessionStore(60000);
+      const owned = store.create('owner')!;
+      const unowned = store.create()!;
+
+      expect(store.get(owned.id, 'someone-else')).toBeUndefined();
+      expect(store.get(owned.id, 'owner')).toBe(owned);
+      // Sessions opened before authenticating are claimed on first use
+      expect(store.get(unowned.id, 'owner')).toBe(unowned);
+      expect(store.get(unowned.id)).toBeUndefined();
+    });
+
+    it('should expire idle sessions without an open stream', () => {
+      const store = new MCPSessionStore(1000);
+      const idle = store.create()!;
+      const streaming = store.create()!;
+      store.attachStream(streaming, stream().res);
+
+      expect(store.purgeExpired(Date.now() + 2000)).toBe(1);
+      expect(store.get(idle.id)).toBeUndefined();
+      expect(store.get(streaming.id)).toBe(streaming);
+    });
+
+    it('should only make room by evicting unclaimed sessions without a stream', () => {
+      const store = new MCPSessionStore(60000, 2);
+      const owned = store.create('owner')!;
+      const anonymous = store.create()!;
+
+      const streaming = store.create()!;
+      store.attachStream(streaming, stream().res);
+
+      expect(store.get(anonymous.id)).toBeUndefined();
+      expect(store.get(owned.id, 'owner')).toBe(owned);
+      // Nothing left that an anonymous initialize may push out
+      expect(store.create()).toBeUndefined();
+      expect(store.size).toBe(2);
+    });
+  });
+
+  describe('HTTP', () => {
+    const app = createApp();
+    const initialize = () => request(app).post('/mcp').send({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', clientInfo: { name: 'test-client', version: '1.0.0' }, capabilities: {} },
+    });
+
+    it('should issue an Mcp-Session-Id on initialize', async () => {
+      const first = await initialize().expect(200);
+      const second = await initialize().expect(200);
+
+      expect(first.headers['mcp-session-id']).toMatch(/^[0-9a-f-]{36}$/);
+      expect(second.headers['mcp-session-id']).not.toBe(first.headers['mcp-session-id']);
+    });
+
+    it('should end a session on DELETE', async () => {
+      const sessionId = (await initialize()).headers['mcp-session-id'];
+
+      await request(app).delete('/mcp').set('Mcp-Session-Id', sessionId).expect(204);
+      await request(app).delete('/mcp').set('Mcp-Session-Id', sessionId).expect(404);
+    });
+
+    it('should require a session ID to DELETE', async () => {
+      const response = await request(app).delete('/mcp').expect(400);
+
+      expect(response.body.message).toBe('Mcp-Session-Id header is required');
+    });
+  });
+});